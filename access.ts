@@ -0,0 +1,35 @@
+import { sql } from "./db.ts";
+
+/**
+ * SQL condition matching the ideas (aliased `alias`) that `viewer` may read:
+ * public ideas, their own ideas, ideas marked 'private:<viewer>' and ideas
+ * shared with a group the viewer belongs to. Hidden ideas are only shown to
+ * their author and deleted ones to nobody. Anonymous callers only see public
+ * ideas.
+ */
+export function visibleIdeas(viewer: string | undefined, alias = "i") {
+	const i = sql(alias);
+	if (!viewer) {
+		return sql`(${i}.deleted_at IS NULL AND NOT ${i}.hidden AND COALESCE(${i}.access, 'public') = 'public')`;
+	}
+	return sql`(${i}.deleted_at IS NULL AND (NOT ${i}.hidden OR ${i}.user_id = ${viewer}) AND (
+		COALESCE(${i}.access, 'public') = 'public'
+		OR ${i}.user_id = ${viewer}
+		OR ${i}.access = 'private:' || ${viewer}
+		OR (${i}.access LIKE 'group:%' AND EXISTS (
+			SELECT 1 FROM user_groups_members m
+			WHERE ${i}.access = 'group:' || m.group_id AND m.user_id = ${viewer}
+		))
+	))`;
+}
+
+// SQL condition matching the feedbacks (aliased `alias`) that `viewer` may
+// read: feedbacks that are not hidden, tombstoned or deleted, on ideas the
+// viewer can see.
+export function visibleFeedbacks(viewer: string | undefined, alias = "f") {
+	const f = sql(alias);
+	return sql`(NOT ${f}.hidden AND NOT ${f}.tombstoned AND ${f}.deleted_at IS NULL AND EXISTS (
+		SELECT 1 FROM ideas vi
+		WHERE vi.id = ${f}.idea_id AND ${visibleIdeas(viewer, "vi")}
+	))`;
+}
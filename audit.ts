@@ -0,0 +1,196 @@
+import type { Context } from "hono";
+import { getConnInfo } from "hono/bun";
+import { createMiddleware } from "hono/factory";
+import type { Sql } from "postgres";
+import { sql, transaction } from "./db.ts";
+import { routePattern } from "./logging.ts";
+
+export type AuditEvent = {
+	// User who made the change, null for anonymous callers and jobs.
+	actor: string | null;
+	// Route that made the change, e.g. "DELETE /groups/:id".
+	action: string;
+	resource_type: string;
+	resource_id: string | null;
+	before: unknown;
+	after: unknown;
+	request_id: string | null;
+	ip: string | null;
+};
+
+// Where the row of each audited resource lives, and the route parameter and
+// column naming it.
+const resources: Record<
+	string,
+	{ table: string; column: string; param: string; numeric: boolean }
+> = {
+	idea: { table: "ideas", column: "id", param: "id", numeric: true },
+	feedback: { table: "feedbacks", column: "id", param: "id", numeric: true },
+	group: { table: "user_groups", column: "id", param: "id", numeric: true },
+	group_invitation: {
+		table: "group_invitations",
+		column: "code",
+		param: "code",
+		numeric: false,
+	},
+	group_join_request: {
+		table: "group_join_requests",
+		column: "id",
+		param: "request_id",
+		numeric: true,
+	},
+	user: { table: "users", column: "id", param: "id", numeric: false },
+	tag: { table: "tags", column: "name", param: "name", numeric: false },
+};
+
+const collections: Record<string, string> = {
+	ideas: "idea",
+	feedbacks: "feedback",
+	groups: "group",
+	users: "user",
+	tags: "tag",
+};
+
+// Resource a route acts on, named after the first segment of its path.
+function resourceType(route: string) {
+	if (route.startsWith("/groups/invitations/")) {
+		return "group_invitation";
+	}
+	if (route.startsWith("/groups/requests/")) {
+		return "group_join_request";
+	}
+	const collection = route.split("/")[1] ?? "";
+	return collections[collection] ?? collection;
+}
+
+// Values of the :params of `route` in `path`. A malformed escape is kept as
+// it came, for the route to reject.
+function routeParams(route: string, path: string) {
+	const values = path.split("/");
+	const params: Record<string, string> = {};
+	route.split("/").forEach((segment, i) => {
+		const value = values[i];
+		if (segment.startsWith(":") && value !== undefined) {
+			try {
+				params[segment.slice(1)] = decodeURIComponent(value);
+			} catch {
+				params[segment.slice(1)] = value;
+			}
+		}
+	});
+	return params;
+}
+
+// Routes that upload or delete files in S3 run outside a transaction, so no
+// connection is held open in one while they wait for the bucket. Their event
+// is written once they are done.
+const untransacted = new Set([
+	"POST /ideas/file/:id",
+	"DELETE /ideas/file/:id",
+	"POST /users/:id",
+]);
+
+// The row of a resource as JSON, null when there is none.
+export async function snapshot(type: string, key: string | null, db: Sql = sql) {
+	const resource = resources[type];
+	if (!resource || key === null || (resource.numeric && !/^\d+$/.test(key))) {
+		return null;
+	}
+	const rows = await db`SELECT to_jsonb(t) - 'search_vector' AS row
+		FROM ${db(resource.table)} t WHERE ${db(resource.column)} = ${key}`;
+	return rows[0]?.row ?? null;
+}
+
+export function clientIp(c: Context): string | null {
+	const forwarded = c.req.header("X-Forwarded-For")?.split(",")[0]?.trim();
+	if (forwarded) {
+		return forwarded;
+	}
+	try {
+		return getConnInfo(c).remote.address ?? null;
+	} catch {
+		return null;
+	}
+}
+
+// Writes one event to audit_events, as part of the transaction `db` when the
+// event must not outlive the change it records.
+export async function audit(event: AuditEvent, db: Sql = sql) {
+	await db`INSERT INTO audit_events ${db({
+		...event,
+		before: event.before === null ? null : db.json(event.before as never),
+		after: event.after === null ? null : db.json(event.after as never),
+	})}`;
+}
+
+// Thrown to roll back the transaction of a request that failed.
+const failed = new Error("Request failed");
+
+/**
+ * Records every successful POST, PUT, PATCH and DELETE in audit_events, with
+ * the row of the resource it acted on as it was before and after the
+ * request. Routes that create a resource are matched to it through the id of
+ * the row they return.
+ *
+ * The request runs in one transaction with its event, so a change is never
+ * kept without its event. A request that fails rolls back what it changed,
+ * and one whose event can't be written fails with a 500. The S3 routes are
+ * the exception, see `untransacted`.
+ */
+export const auditLog = () =>
+	createMiddleware(async (c, next) => {
+		if (!["POST", "PUT", "PATCH", "DELETE"].includes(c.req.method)) {
+			return await next();
+		}
+		const route = routePattern(c);
+		if (!route) {
+			return await next();
+		}
+		const type = resourceType(route);
+		const param = resources[type]?.param ?? "id";
+		let key = routeParams(route, c.req.path)[param] ?? null;
+		const action = `${c.req.method} ${route}`;
+		const run = untransacted.has(action)
+			? (fn: () => Promise<void>) => fn()
+			: transaction;
+
+		try {
+			await run(async () => {
+				const before = await snapshot(type, key);
+
+				await next();
+
+				if (c.res.status >= 400) {
+					throw failed;
+				}
+				if (
+					key === null &&
+					c.res.headers.get("Content-Type")?.startsWith("application/json")
+				) {
+					const body = (await c.res
+						.clone()
+						.json()
+						.catch(() => null)) as Record<string, unknown> | null;
+					const column = resources[type]?.column ?? "id";
+					key = body?.[column] === undefined ? null : String(body[column]);
+				}
+				await audit({
+					actor: c.get("user_id") ?? null,
+					action,
+					resource_type: type,
+					resource_id: key,
+					before,
+					after: await snapshot(type, key),
+					request_id: c.get("requestId") ?? null,
+					ip: clientIp(c),
+				}).catch((error) => {
+					// Whatever went wrong, it is ours rather than the caller's.
+					throw new Error(`Could not write audit event: ${error}`, { cause: error });
+				});
+			});
+		} catch (error) {
+			if (error !== failed) {
+				throw error;
+			}
+		}
+	});
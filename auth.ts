@@ -0,0 +1,133 @@
+import { readFile } from "node:fs/promises";
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { HTTPException } from "hono/http-exception";
+import { ApiError } from "./errors.ts";
+import { Jwt } from "hono/utils/jwt";
+import type { HonoJsonWebKey } from "hono/utils/jwt/jws";
+import type { JWTPayload } from "hono/utils/jwt/types";
+
+declare module "hono" {
+	interface ContextVariableMap {
+		user_id: string | undefined;
+	}
+}
+
+// Reads the keys of a JWKS file, failing with the reason when the file is
+// missing, isn't JSON or has no RSA key with a `kid`.
+export async function readJwks(path: string): Promise<HonoJsonWebKey[]> {
+	let file: { keys?: unknown };
+	try {
+		file = JSON.parse(await readFile(path, "utf8"));
+	} catch (error) {
+		throw new Error(`Could not read the JWKS file ${path}: ${error}`, {
+			cause: error,
+		});
+	}
+	const keys = file?.keys;
+	if (
+		!Array.isArray(keys) ||
+		keys.length === 0 ||
+		!keys.every((key) => key?.kty === "RSA" && typeof key.kid === "string")
+	) {
+		throw new Error(
+			`The JWKS file ${path} must have a "keys" array of RSA keys, each with a "kid"`,
+		);
+	}
+	return keys;
+}
+
+// HS256 tokens are checked against JWT_SECRET, RS256 tokens against the keys
+// of the local JWKS file at JWKS_FILE (matched by `kid`). The file is read at
+// startup, so a broken one stops the server rather than failing every RS256
+// token as invalid.
+const jwks = process.env.JWKS_FILE
+	? await readJwks(process.env.JWKS_FILE)
+	: undefined;
+
+async function verifyToken(
+	token: string,
+	keys: HonoJsonWebKey[] | undefined,
+): Promise<JWTPayload> {
+	let alg: string;
+	try {
+		alg = Jwt.decode(token).header.alg;
+	} catch {
+		throw new ApiError("INVALID_TOKEN", "Malformed token");
+	}
+
+	try {
+		if (alg === "HS256") {
+			if (!process.env.JWT_SECRET) {
+				throw new ApiError("INVALID_TOKEN", "HS256 tokens are not accepted");
+			}
+			return await Jwt.verify(token, process.env.JWT_SECRET, "HS256");
+		}
+		if (alg === "RS256") {
+			if (!keys) {
+				throw new ApiError("INVALID_TOKEN", "RS256 tokens are not accepted");
+			}
+			return await Jwt.verifyFromJwks(token, { keys });
+		}
+	} catch (error) {
+		if (error instanceof HTTPException) {
+			throw error;
+		}
+		throw new ApiError("INVALID_TOKEN");
+	}
+	throw new ApiError("INVALID_TOKEN", `Unsupported token algorithm ${alg}`);
+}
+
+/**
+ * Verifies the bearer token, if any, and stores its subject as `user_id` on
+ * the context. Requests without an Authorization header pass through
+ * anonymously; routes that need a caller use `currentUser`. RS256 tokens are
+ * checked against `keys`, by default those of JWKS_FILE.
+ */
+export const identity = (keys = jwks) =>
+	createMiddleware(async (c, next) => {
+		const authorization = c.req.header("Authorization");
+		if (authorization) {
+			const [scheme, token] = authorization.split(" ");
+			if (scheme?.toLowerCase() !== "bearer" || !token) {
+				throw new ApiError("INVALID_TOKEN", "Authorization header must be 'Bearer <token>'");
+			}
+			const payload = await verifyToken(token, keys);
+			if (typeof payload.sub !== "string" || payload.sub === "") {
+				throw new ApiError("INVALID_TOKEN", "Token has no subject");
+			}
+			c.set("user_id", payload.sub);
+		}
+		await next();
+	});
+
+export function currentUser(c: Context): string {
+	const user_id = c.get("user_id");
+	if (!user_id) {
+		throw new ApiError("AUTHENTICATION_REQUIRED");
+	}
+	return user_id;
+}
+
+// Returns the caller's id, rejecting a client supplied user id that belongs
+// to someone else.
+export function assertSelf(c: Context, user_id: string | undefined): string {
+	const caller = currentUser(c);
+	if (user_id !== undefined && user_id !== caller) {
+		throw new ApiError("USER_MISMATCH");
+	}
+	return caller;
+}
+
+// Mints an HS256 token for local development and tests.
+export async function mintToken(user_id: string, expiresIn = 60 * 60) {
+	if (!process.env.JWT_SECRET) {
+		throw new Error("JWT_SECRET is not defined");
+	}
+	const now = Math.floor(Date.now() / 1000);
+	return await Jwt.sign(
+		{ sub: user_id, iat: now, exp: now + expiresIn },
+		process.env.JWT_SECRET,
+		"HS256",
+	);
+}
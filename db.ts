@@ -1,5 +1,7 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { S3Client } from "bun";
-import postgres from "postgres";
+import postgres, { type TransactionSql } from "postgres";
+import { ApiError, type ErrorCode } from "./errors.ts";
 
 if (!process.env.PGURL) {
     throw new Error("PGURL is not defined");
@@ -25,101 +27,147 @@ if (!process.env.AWS_ENDPOINT_URL) {
     throw new Error("AWS_ENDPOINT_URL is not defined");
 }
 
-export const sql = postgres(process.env.PGURL, {
+const pg = postgres(process.env.PGURL, {
     ssl: {
         rejectUnauthorized: false,
     },
 });
 
+export type QueryStats = {
+    count: number;
+    ms: number;
+};
+
+// Queries run while a store is set are counted in it, see logging.ts.
+export const queryStats = new AsyncLocalStorage<QueryStats>();
+
+// Queries are promises that only run once awaited, so `query` is timed from
+// the first call of its then() and fragments that are only interpolated are
+// not counted.
+function timed<Q extends object>(query: Q): Q {
+    let seen = false;
+    return new Proxy(query, {
+        get(target, prop) {
+            const value: unknown = Reflect.get(target, prop);
+            if (prop !== "then" || typeof value !== "function") {
+                return value;
+            }
+            // Promise methods only accept the query itself as `this`.
+            return (...args: unknown[]) => {
+                const stats = queryStats.getStore();
+                if (stats && !seen) {
+                    seen = true;
+                    stats.count++;
+                    const start = performance.now();
+                    const done = () => {
+                        stats.ms += performance.now() - start;
+                    };
+                    value.call(target, done, done);
+                }
+                return value.apply(target, args);
+            };
+        },
+    });
+}
+
+/**
+ * `db` with every query it creates wrapped by timed(), including the
+ * queries of the transactions and savepoints it begins.
+ */
+function instrument<S extends object>(db: S): S {
+    return new Proxy(db, {
+        apply(target, self, args) {
+            const result: unknown = Reflect.apply(target as (...args: unknown[]) => unknown, self, args);
+            return result instanceof Promise ? timed(result) : result;
+        },
+        get(target, prop) {
+            const value: unknown = Reflect.get(target, prop);
+            if (typeof value !== "function") {
+                return value;
+            }
+            if (prop === "unsafe") {
+                return (...args: unknown[]) => timed(value.apply(target, args));
+            }
+            if (prop === "begin" || prop === "savepoint") {
+                return (...args: unknown[]) =>
+                    value.apply(
+                        target,
+                        args.map((arg) =>
+                            typeof arg === "function" ? (tx: object) => arg(instrument(tx)) : arg,
+                        ),
+                    );
+            }
+            return value;
+        },
+    });
+}
+
+// Transaction of the request being handled, see transaction().
+const requestTransaction = new AsyncLocalStorage<TransactionSql>();
+
+// `pg`, or the transaction of the current request when there is one. A
+// transaction begun inside it is a savepoint.
+const current = new Proxy(pg, {
+    apply(target, self, args) {
+        return Reflect.apply(requestTransaction.getStore() ?? target, self, args);
+    },
+    get(target, prop) {
+        const tx = requestTransaction.getStore();
+        const db: object = tx ?? target;
+        const value: unknown = Reflect.get(db, tx && prop === "begin" ? "savepoint" : prop);
+        return typeof value === "function" ? value.bind(db) : value;
+    },
+});
+
+export const sql = instrument(current);
+
+/**
+ * Runs `fn` in a transaction that every query made through `sql` while it
+ * runs joins, committed once `fn` resolves and rolled back when it throws.
+ */
+export async function transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return (await pg.begin((tx) => requestTransaction.run(tx, fn))) as T;
+}
+
+export type NotFound = Extract<ErrorCode, `${string}_NOT_FOUND`>;
+
+/**
+ * The first row of a query for a single resource, or a 404 with `code` when
+ * there is none. Lookups and updates of one row go through this so that a
+ * missing resource is reported the same way by every route.
+ */
+export async function found<T>(query: PromiseLike<readonly T[]>, code: NotFound, detail?: string): Promise<T> {
+    const rows = await query;
+    if (!rows[0]) {
+        throw new ApiError(code, detail);
+    }
+    return rows[0];
+}
+
+// Columns of ideas and feedbacks sent to clients. search_vector only exists
+// for full text search and is left out.
+const idea_columns = [
+    "id", "title", "content", "user_id", "files_url", "access", "upvotes", "downvotes", "created_at",
+    "hidden", "revision", "updated_at", "version", "deleted_at",
+];
+const feedback_columns = [
+    "id", "idea_id", "user_id", "content", "files_url", "feedback_links", "user_tag", "upvotes", "downvotes",
+    "created_at", "hidden", "parent_id", "tombstoned", "version", "deleted_at",
+];
+
+const columns = (names: string[], alias?: string) =>
+    sql(alias ? names.map((name) => `${alias}.${name}`) : names);
+
+// For `SELECT ${ideaColumns("i")} FROM ideas i` or `RETURNING ${ideaColumns()}`.
+export const ideaColumns = (alias?: string) => columns(idea_columns, alias);
+export const feedbackColumns = (alias?: string) => columns(feedback_columns, alias);
+
 export const s3 = new S3Client({
 	region: process.env.AWS_REGION,
 	accessKeyId: process.env.AWS_ACCESS_KEY_ID,
 	secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
 	bucket: process.env.AWS_BUCKET_NAME,
-    acl: "public-read",
+    // Objects are only readable through signed URLs unless written otherwise.
+    acl: "private",
 	endpoint: process.env.AWS_ENDPOINT_URL,
 });
-
-// for (const query of [
-//     sql`
-//     CREATE TABLE IF NOT EXISTS users (
-//         id TEXT PRIMARY KEY,
-//         name TEXT,
-//         email TEXT,
-//         role TEXT,
-//         image_url TEXT
-//     );`,
-//     sql`
-//     CREATE TABLE IF NOT EXISTS tags (
-//         id SERIAL PRIMARY KEY,
-//         name TEXT UNIQUE,
-//         upvotes INTEGER DEFAULT 0,
-//         downvotes INTEGER DEFAULT 0
-//     );`,
-//     sql`
-//     CREATE TABLE IF NOT EXISTS users_pinned_tags (
-//         user_id TEXT NOT NULL,
-//         tag_id INTEGER NOT NULL,
-//         PRIMARY KEY (user_id, tag_id),
-//         FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-//         FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
-//     );`,
-//     sql`
-//     CREATE TABLE IF NOT EXISTS user_groups (
-//         id SERIAL PRIMARY KEY,
-//         title TEXT,
-//         description TEXT,
-//         user_id TEXT [],
-//         likes INTEGER DEFAULT 0
-//     );`,
-//     sql`
-//     CREATE TABLE IF NOT EXISTS ideas (
-//         id SERIAL PRIMARY KEY,
-//         title TEXT,
-//         content TEXT,
-//         user_id TEXT,
-//         files_url TEXT [],
-//         access TEXT, -- 'public', 'private:user_id', 'group:group_id'
-//         upvotes INTEGER DEFAULT 0,
-//         downvotes INTEGER DEFAULT 0,
-//         FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-//     );`,
-//     sql`
-//     CREATE TABLE IF NOT EXISTS ideas_tags (
-//         idea_id INTEGER,
-//         tag_id INTEGER,
-//         PRIMARY KEY (idea_id, tag_id),
-//         FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE,
-//         FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
-//     );`,
-//     sql`
-//     CREATE TABLE IF NOT EXISTS feedbacks (
-//         id SERIAL PRIMARY KEY,
-//         idea_id INTEGER,
-//         user_id TEXT,
-//         content TEXT,
-//     files_url TEXT [],
-//     feedback_links INTEGER [],
-//         user_tag TEXT NULL,
-//         upvotes INTEGER DEFAULT 0,
-//         downvotes INTEGER DEFAULT 0,
-//         FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE,
-//         FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-//     );`,
-//     sql`
-//     CREATE TABLE IF NOT EXISTS ideas_feedbacks (
-//         idea_id INTEGER,
-//         feedback_id INTEGER,
-//         PRIMARY KEY (idea_id, feedback_id),
-//         FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE,
-//         FOREIGN KEY (feedback_id) REFERENCES feedbacks(id) ON DELETE CASCADE
-//     );`,
-//     sql`
-//     CREATE INDEX IF NOT EXISTS tags_name_index ON tags (name);
-//     `,
-//     sql`
-//     CREATE INDEX IF NOT EXISTS tags_id_index ON tags (id);
-//     `,
-// ]) {
-//     await query;
-// }
@@ -0,0 +1,78 @@
+export type DiffLine = {
+	op: "equal" | "insert" | "delete";
+	line: string;
+};
+
+// Past this many cells the LCS table gets too big to build per request, and
+// the changed region is reported as deleted and inserted wholesale.
+const MAX_CELLS = 4_000_000;
+
+const lines = (text: string) => (text === "" ? [] : text.split("\n"));
+
+/**
+ * Line-level diff turning `before` into `after`, built from the longest
+ * common subsequence of their lines. Unchanged leading and trailing lines are
+ * matched up front so only the edited region goes through the LCS table.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = lines(before);
+	const b = lines(after);
+
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const result: DiffLine[] = a
+		.slice(0, start)
+		.map((line) => ({ op: "equal", line }));
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+	const n = midA.length;
+	const m = midB.length;
+
+	let i = 0;
+	let j = 0;
+	if ((n + 1) * (m + 1) <= MAX_CELLS) {
+		// lcs[i * (m + 1) + j] is the LCS length of midA[i..] and midB[j..].
+		const lcs = new Uint32Array((n + 1) * (m + 1));
+		const at = (i: number, j: number) => lcs[i * (m + 1) + j] ?? 0;
+		for (let i = n - 1; i >= 0; i--) {
+			for (let j = m - 1; j >= 0; j--) {
+				lcs[i * (m + 1) + j] =
+					midA[i] === midB[j]
+						? at(i + 1, j + 1) + 1
+						: Math.max(at(i + 1, j), at(i, j + 1));
+			}
+		}
+		while (i < n && j < m) {
+			if (midA[i] === midB[j]) {
+				result.push({ op: "equal", line: midA[i] as string });
+				i++;
+				j++;
+			} else if (at(i + 1, j) >= at(i, j + 1)) {
+				result.push({ op: "delete", line: midA[i] as string });
+				i++;
+			} else {
+				result.push({ op: "insert", line: midB[j] as string });
+				j++;
+			}
+		}
+	}
+	for (const line of midA.slice(i)) {
+		result.push({ op: "delete", line });
+	}
+	for (const line of midB.slice(j)) {
+		result.push({ op: "insert", line });
+	}
+	for (const line of a.slice(endA)) {
+		result.push({ op: "equal", line });
+	}
+	return result;
+}
@@ -0,0 +1,247 @@
+import type { Context } from "hono";
+import { HTTPException } from "hono/http-exception";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import postgres from "postgres";
+import type { ZodError } from "zod";
+
+/**
+ * Every error the API answers with, by stable code. Clients should branch on
+ * the code; the title is its default human readable detail.
+ */
+export const errors = {
+	BAD_REQUEST: { status: 400, title: "Bad request" },
+	VALIDATION_FAILED: { status: 400, title: "Request validation failed" },
+	INVALID_CURSOR: { status: 400, title: "Invalid cursor" },
+	NOT_A_MEMBER: { status: 400, title: "Not a member, invite them instead" },
+	TAG_MERGE_INTO_ITSELF: {
+		status: 400,
+		title: "A tag cannot be merged into itself",
+	},
+	CANNOT_FOLLOW_SELF: { status: 400, title: "Users cannot follow themselves" },
+	IDEA_NOT_CREATED: { status: 400, title: "Failed to create idea" },
+	FEEDBACK_NOT_CREATED: { status: 400, title: "Feedback not created" },
+	GROUP_NOT_CREATED: { status: 400, title: "Group not created" },
+	AUTHENTICATION_REQUIRED: { status: 401, title: "Authentication required" },
+	INVALID_TOKEN: { status: 401, title: "Invalid token" },
+	FORBIDDEN: { status: 403, title: "Not allowed" },
+	USER_MISMATCH: {
+		status: 403,
+		title: "user_id does not match the authenticated user",
+	},
+	NOT_FOUND: { status: 404, title: "Not found" },
+	IDEA_NOT_FOUND: { status: 404, title: "Idea not found" },
+	REVISION_NOT_FOUND: { status: 404, title: "Revision not found" },
+	FILE_NOT_FOUND: { status: 404, title: "File not found" },
+	FEEDBACK_NOT_FOUND: { status: 404, title: "Feedback not found" },
+	PARENT_FEEDBACK_NOT_FOUND: {
+		status: 404,
+		title: "Parent feedback not found on this idea",
+	},
+	TAG_NOT_FOUND: { status: 404, title: "Tag not found" },
+	TAG_ALIAS_NOT_FOUND: { status: 404, title: "Tag alias not found" },
+	USER_NOT_FOUND: { status: 404, title: "User not found" },
+	USER_OR_TAG_NOT_FOUND: { status: 404, title: "Either user or tag not found" },
+	FOLLOW_NOT_FOUND: { status: 404, title: "Not following this user" },
+	GROUP_NOT_FOUND: { status: 404, title: "Group not found" },
+	MEMBER_NOT_FOUND: { status: 404, title: "Member not found" },
+	INVITATION_NOT_FOUND: { status: 404, title: "Invitation not found" },
+	JOIN_REQUEST_NOT_FOUND: { status: 404, title: "Join request not found" },
+	CONFLICT: { status: 409, title: "Conflicts with an existing resource" },
+	TAG_CONFLICT: {
+		status: 409,
+		title: "A tag or tag alias with this name already exists",
+	},
+	USER_CONFLICT: { status: 409, title: "A user with this id already exists" },
+	ALREADY_MEMBER: { status: 409, title: "Already a member" },
+	OWNER_CANNOT_LEAVE: {
+		status: 409,
+		title: "The owner has to transfer ownership before leaving the group",
+	},
+	INVITATION_PENDING: {
+		status: 409,
+		title: "User already has a pending invitation",
+	},
+	INVITATION_NOT_PENDING: {
+		status: 409,
+		title: "Invitation is no longer pending",
+	},
+	JOIN_REQUEST_PENDING: { status: 409, title: "Join request already pending" },
+	JOIN_REQUEST_NOT_PENDING: {
+		status: 409,
+		title: "Join request is no longer pending",
+	},
+	IDEA_IN_TRASH: {
+		status: 409,
+		title: "The idea of this feedback is in the trash, restore it first",
+	},
+	FEEDBACK_IN_THREAD: {
+		status: 409,
+		title: "A feedback with a parent or replies cannot move to another idea",
+	},
+	STILL_REFERENCED: {
+		status: 409,
+		title: "The resource is still referenced by others",
+	},
+	TAG_IN_USE: {
+		status: 409,
+		title: "The tag is still used by ideas or users, merge it instead",
+	},
+	TAG_HIERARCHY_CYCLE: {
+		status: 409,
+		title: "A tag cannot be filed under itself or one of its descendants",
+	},
+	TRANSACTION_CONFLICT: {
+		status: 409,
+		title: "A concurrent change got in the way, try again",
+	},
+	INVITATION_EXPIRED: { status: 410, title: "Invitation has expired" },
+	JOIN_REQUEST_EXPIRED: { status: 410, title: "Join request has expired" },
+	RESOURCE_MODIFIED: {
+		status: 412,
+		title: "The resource was modified since it was read",
+	},
+	INVALID_REFERENCE: {
+		status: 422,
+		title: "Refers to a resource that does not exist",
+	},
+	INVALID_VALUE: { status: 422, title: "A value is not valid for its field" },
+	IF_MATCH_REQUIRED: {
+		status: 428,
+		title: "If-Match header with the resource's ETag is required",
+	},
+	INTERNAL_ERROR: { status: 500, title: "Internal server error" },
+} satisfies Record<string, { status: ContentfulStatusCode; title: string }>;
+
+export type ErrorCode = keyof typeof errors;
+
+// One failed check of a validated request part.
+export type FieldError = {
+	location: string;
+	path: string;
+	message: string;
+	code: string;
+};
+
+export class ApiError extends HTTPException {
+	readonly code: ErrorCode;
+	readonly errors: FieldError[] | undefined;
+
+	constructor(code: ErrorCode, detail?: string, fields?: FieldError[]) {
+		super(errors[code].status, { message: detail ?? errors[code].title });
+		this.code = code;
+		this.errors = fields;
+	}
+}
+
+// Hook for the request validators, turning zod issues into a
+// VALIDATION_FAILED error that lists every failed field.
+export function invalid(result: {
+	success: boolean;
+	error?: ZodError;
+	target: string;
+}) {
+	if (!result.success && result.error) {
+		throw new ApiError(
+			"VALIDATION_FAILED",
+			undefined,
+			result.error.issues.map((issue) => ({
+				location: result.target,
+				path: issue.path.join("."),
+				message: issue.message,
+				code: issue.code,
+			})),
+		);
+	}
+}
+
+// Codes for unique violations, by table.
+const conflicts: Record<string, ErrorCode> = {
+	tags: "TAG_CONFLICT",
+	tag_aliases: "TAG_CONFLICT",
+	users: "USER_CONFLICT",
+	user_groups_members: "ALREADY_MEMBER",
+	group_invitations: "INVITATION_PENDING",
+	group_join_requests: "JOIN_REQUEST_PENDING",
+};
+
+// SQLSTATEs a request can cause, see
+// https://www.postgresql.org/docs/current/errcodes-appendix.html. Anything
+// else is a bug and stays a 500.
+function fromPostgres(error: postgres.PostgresError): ApiError | null {
+	switch (error.code) {
+		case "23505":
+			return new ApiError(
+				conflicts[error.table_name ?? ""] ?? "CONFLICT",
+				error.detail,
+			);
+		case "23503":
+			// Deleting a row others point to, or pointing to a missing row.
+			return error.message.startsWith("update or delete")
+				? new ApiError("STILL_REFERENCED", error.detail)
+				: new ApiError("INVALID_REFERENCE", error.detail);
+		case "23502":
+		case "23514":
+		case "22001":
+		case "22003":
+		case "22007":
+		case "22008":
+		case "22P02":
+			return new ApiError("INVALID_VALUE", error.detail ?? error.message);
+		case "40001":
+		case "40P01":
+			return new ApiError("TRANSACTION_CONFLICT");
+		default:
+			return null;
+	}
+}
+
+// Code for an HTTPException thrown by hono or a library rather than by us,
+// such as the 400 for a body that is not JSON.
+function codeFor(status: number): ErrorCode {
+	const generic: Record<number, ErrorCode> = {
+		401: "AUTHENTICATION_REQUIRED",
+		403: "FORBIDDEN",
+		404: "NOT_FOUND",
+		409: "CONFLICT",
+	};
+	return generic[status] ?? (status < 500 ? "BAD_REQUEST" : "INTERNAL_ERROR");
+}
+
+/**
+ * Maps any error to an ApiError: other HTTPExceptions keep their message
+ * under a generic code, Postgres errors a client can cause get their own code
+ * and everything else becomes an INTERNAL_ERROR that hides its message.
+ */
+export function toApiError(error: Error): ApiError {
+	if (error instanceof ApiError) {
+		return error;
+	}
+	if (error instanceof HTTPException) {
+		return new ApiError(codeFor(error.status), error.message);
+	}
+	if (error instanceof postgres.PostgresError) {
+		const mapped = fromPostgres(error);
+		if (mapped) {
+			return mapped;
+		}
+	}
+	return new ApiError("INTERNAL_ERROR");
+}
+
+// The RFC 7807 problem+json response for `error`.
+export function problem(c: Context, error: ApiError) {
+	return c.body(
+		JSON.stringify({
+			type: `urn:feedback-server:error:${error.code}`,
+			title: errors[error.code].title,
+			status: error.status,
+			detail: error.message,
+			instance: c.req.path,
+			code: error.code,
+			request_id: c.get("requestId"),
+			...(error.errors ? { errors: error.errors } : {}),
+		}),
+		error.status,
+		{ "Content-Type": "application/problem+json" },
+	);
+}
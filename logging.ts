@@ -0,0 +1,49 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { type QueryStats, queryStats } from "./db.ts";
+
+type Level = "info" | "warn" | "error";
+
+// Writes one JSON line to stdout, or stderr for errors.
+export function log(level: Level, fields: Record<string, unknown>) {
+	const line = JSON.stringify({
+		time: new Date().toISOString(),
+		level,
+		...fields,
+	});
+	if (level === "error") {
+		console.error(line);
+	} else {
+		console.log(line);
+	}
+}
+
+// Pattern of the route that handled the request, e.g. "/ideas/:id". Routes
+// answer without calling next(), so it is the first one registered that
+// matches the path.
+export const routePattern = (c: Context) =>
+	c.req.matchedRoutes.find((matched) => matched.method !== "ALL")?.path ??
+	null;
+
+/**
+ * Logs one line per request once it is answered, with its request id, the
+ * caller and the number of SQL queries it ran and the time they took.
+ */
+export const requestLog = () =>
+	createMiddleware(async (c, next) => {
+		const start = performance.now();
+		const stats: QueryStats = { count: 0, ms: 0 };
+		await queryStats.run(stats, next);
+		const status = c.res.status;
+		log(status >= 500 ? "error" : status >= 400 ? "warn" : "info", {
+			request_id: c.get("requestId"),
+			method: c.req.method,
+			route: routePattern(c),
+			path: c.req.path,
+			status,
+			latency_ms: Math.round(performance.now() - start),
+			user_id: c.get("user_id") ?? null,
+			sql_count: stats.count,
+			sql_ms: Math.round(stats.ms),
+		});
+	});
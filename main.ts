@@ -1,23 +1,31 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
-import { logger } from "hono/logger";
+import { requestId } from "hono/request-id";
 import { apiReference } from "@scalar/hono-api-reference";
 import "zod-openapi/extend";
 import { z } from "zod";
 import { swaggerUI } from "@hono/swagger-ui";
 import { describeRoute, openAPISpecs } from "hono-openapi";
-import { resolver, validator as zValidator } from "hono-openapi/zod";
-import { HTTPException } from "hono/http-exception";
+import { resolver } from "hono-openapi/zod";
+import { zValidator } from "./routes/validator.ts";
 import { handle } from "hono/aws-lambda";
+import { identity } from "./auth.ts";
+import { auditLog } from "./audit.ts";
+import { ApiError, problem, toApiError } from "./errors.ts";
+import { log, requestLog } from "./logging.ts";
 
 import users from "./routes/users.ts";
 import tags from "./routes/tags.ts";
 import ideas from "./routes/ideas.ts";
 import groups from "./routes/groups.ts";
 import feedbacks from "./routes/feedbacks.ts";
+import search from "./routes/search.ts";
+import trash from "./routes/trash.ts";
+import admin from "./routes/admin.ts";
 
 const app = new Hono();
-app.use(logger());
+app.use(requestId());
+app.use(requestLog());
 
 app.get("/swagger", swaggerUI({ url: "/doc" }));
 
@@ -31,7 +39,7 @@ app.get(
 app.use(
 	cors({
 		origin: "*",
-		allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+		allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
 		allowHeaders: [
 			"Content-Type",
 			"Authorization",
@@ -39,14 +47,13 @@ app.use(
 			"Accept",
 			"*",
 		],
+		exposeHeaders: ["ETag", "X-Request-Id"],
 		credentials: true,
 	}),
 );
 
-// app.use((c, next) => {
-//   c.set("sql", sql);
-//   return next();
-// });
+app.use(identity());
+app.use(auditLog());
 
 const querySchema = z.object({
 	name: z.string().optional().openapi({
@@ -56,26 +63,25 @@ const querySchema = z.object({
 	}),
 });
 
+// Errors are answered as RFC 7807 problems carrying the request id, so a
+// report can be matched to the logs.
 app.onError((error, c) => {
-	if (error instanceof HTTPException) {
-		const err = error as HTTPException;
-		return c.json(
-			{
-				name: err.name,
-				message: err.message,
-			},
-			err.status ?? 500,
-		);
-	}
-	return c.json(
-		{
+	const apiError = toApiError(error);
+	if (apiError.status >= 500) {
+		log("error", {
+			request_id: c.get("requestId"),
 			name: error.name,
 			message: error.message,
-		},
-		500,
-	);
+			stack: error.stack,
+		});
+	}
+	return problem(c, apiError);
 });
 
+app.notFound((c) =>
+	problem(c, new ApiError("NOT_FOUND", `No route for ${c.req.method} ${c.req.path}`)),
+);
+
 app.get(
 	"/health",
 	describeRoute({
@@ -131,6 +137,9 @@ app.route("/", tags);
 app.route("/", ideas);
 app.route("/", groups);
 app.route("/", feedbacks);
+app.route("/", search);
+app.route("/", trash);
+app.route("/", admin);
 
 app.get(
 	"/doc",
@@ -176,6 +185,18 @@ app.get(
 					name: "feedbacks",
 					description: "Feedback management",
 				},
+				{
+					name: "search",
+					description: "Full-text search",
+				},
+				{
+					name: "trash",
+					description: "Deleted ideas and feedbacks",
+				},
+				{
+					name: "admin",
+					description: "Administration",
+				},
 			],
 		},
 	}),
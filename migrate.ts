@@ -0,0 +1,164 @@
+import { readFile, readdir } from "node:fs/promises";
+import { join } from "node:path";
+import type { TransactionSql } from "postgres";
+import { sql } from "./db.ts";
+
+// Migrations are pairs of files in migrations/ named
+// <version>_<name>.up.sql and <version>_<name>.down.sql, applied in version
+// order. Each one runs in its own transaction.
+const dir = join(import.meta.dir, "migrations");
+
+// Key of the advisory lock held by every migration transaction, so instances
+// migrating the same database at once wait for each other.
+const LOCK = 4171001;
+
+type Migration = {
+	version: string;
+	name: string;
+	up: string;
+	down: string;
+};
+
+export async function migrations(): Promise<Migration[]> {
+	const files = (await readdir(dir)).filter((file) => file.endsWith(".sql"));
+	const result: Migration[] = [];
+	for (const file of files.sort()) {
+		const match = /^(\d+)_(\w+)\.(up|down)\.sql$/.exec(file);
+		if (!match?.[1] || !match[2]) {
+			throw new Error(`Invalid migration file name ${file}`);
+		}
+		if (match[3] === "down") {
+			continue;
+		}
+		const [, version, name] = match;
+		const down = `${version}_${name}.down.sql`;
+		if (!files.includes(down)) {
+			throw new Error(`Migration ${file} has no ${down}`);
+		}
+		result.push({ version, name, up: join(dir, file), down: join(dir, down) });
+	}
+	return result;
+}
+
+// Takes the lock and makes sure the bookkeeping table exists. Creating the
+// table under the lock keeps concurrent first runs from racing on it.
+async function prepare(sql: TransactionSql) {
+	await sql`SELECT pg_advisory_xact_lock(${LOCK})`;
+	// Silences the "already exists, skipping" notices of IF NOT EXISTS.
+	await sql`SET LOCAL client_min_messages = warning`;
+	await sql`CREATE TABLE IF NOT EXISTS schema_migrations (
+		version TEXT PRIMARY KEY,
+		name TEXT NOT NULL,
+		applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+	)`;
+}
+
+/**
+ * Applies up to `steps` pending migrations, oldest first, and returns the
+ * ones it applied. A migration another instance applied while this one
+ * waited for the lock is skipped.
+ */
+export async function up(steps = Number.POSITIVE_INFINITY) {
+	const applied: string[] = [];
+	for (const migration of await migrations()) {
+		if (applied.length >= steps) {
+			break;
+		}
+		const done = await sql.begin(async (sql) => {
+			await prepare(sql);
+			const rows =
+				await sql`SELECT 1 FROM schema_migrations WHERE version = ${migration.version}`;
+			if (rows.length > 0) {
+				return false;
+			}
+			await sql.unsafe(await readFile(migration.up, "utf8"));
+			await sql`INSERT INTO schema_migrations (version, name) VALUES (${migration.version}, ${migration.name})`;
+			return true;
+		});
+		if (done) {
+			applied.push(`${migration.version}_${migration.name}`);
+		}
+	}
+	return applied;
+}
+
+// Reverts the latest `steps` applied migrations, newest first, and returns
+// the ones it reverted.
+export async function down(steps = 1) {
+	const all = await migrations();
+	const reverted: string[] = [];
+	while (reverted.length < steps) {
+		const migration = await sql.begin(async (sql) => {
+			await prepare(sql);
+			const [latest] =
+				await sql`SELECT version FROM schema_migrations ORDER BY version DESC LIMIT 1`;
+			if (!latest) {
+				return null;
+			}
+			const migration = all.find((m) => m.version === latest.version);
+			if (!migration) {
+				throw new Error(
+					`Migration ${latest.version} is applied but has no files in migrations/`,
+				);
+			}
+			await sql.unsafe(await readFile(migration.down, "utf8"));
+			await sql`DELETE FROM schema_migrations WHERE version = ${migration.version}`;
+			return migration;
+		});
+		if (!migration) {
+			break;
+		}
+		reverted.push(`${migration.version}_${migration.name}`);
+	}
+	return reverted;
+}
+
+export async function status() {
+	const applied = await sql.begin(async (sql) => {
+		await prepare(sql);
+		return await sql`SELECT version, applied_at FROM schema_migrations`;
+	});
+	return (await migrations()).map((migration) => ({
+		migration: `${migration.version}_${migration.name}`,
+		applied_at:
+			applied.find((row) => row.version === migration.version)?.applied_at ??
+			null,
+	}));
+}
+
+if (import.meta.main) {
+	const [command, count] = process.argv.slice(2);
+	const steps = count === undefined ? undefined : Number(count);
+	if (
+		!["up", "down", "status"].includes(command ?? "") ||
+		(steps !== undefined && !(Number.isInteger(steps) && steps > 0))
+	) {
+		console.error("Usage: bun run migrate up|down [count] | status");
+		process.exit(1);
+	}
+	try {
+		if (command === "up") {
+			const applied = await up(steps);
+			console.log(
+				applied.length > 0
+					? applied.map((name) => `applied ${name}`).join("\n")
+					: "Nothing to migrate",
+			);
+		} else if (command === "down") {
+			const reverted = await down(steps);
+			console.log(
+				reverted.length > 0
+					? reverted.map((name) => `reverted ${name}`).join("\n")
+					: "Nothing to revert",
+			);
+		} else {
+			for (const { migration, applied_at } of await status()) {
+				console.log(
+					`${migration}\t${applied_at ? `applied ${applied_at.toISOString()}` : "pending"}`,
+				);
+			}
+		}
+	} finally {
+		await sql.end();
+	}
+}
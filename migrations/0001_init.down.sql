@@ -0,0 +1,8 @@
+DROP TABLE IF EXISTS ideas_feedbacks;
+DROP TABLE IF EXISTS feedbacks;
+DROP TABLE IF EXISTS ideas_tags;
+DROP TABLE IF EXISTS ideas;
+DROP TABLE IF EXISTS user_groups;
+DROP TABLE IF EXISTS users_pinned_tags;
+DROP TABLE IF EXISTS tags;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,13 @@
+-- One vote per user and idea. ideas.upvotes and downvotes are kept in step
+-- with it, see castVote in routes/ideas.ts.
+CREATE TABLE idea_votes (
+    user_id TEXT NOT NULL,
+    idea_id INTEGER NOT NULL,
+    vote SMALLINT NOT NULL CHECK (vote IN (-1, 1)),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, idea_id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idea_votes_idea_id_index ON idea_votes (idea_id);
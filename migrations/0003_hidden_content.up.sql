@@ -0,0 +1,3 @@
+-- Moderators hide ideas and feedbacks instead of deleting them.
+ALTER TABLE ideas ADD COLUMN hidden BOOLEAN DEFAULT FALSE;
+ALTER TABLE feedbacks ADD COLUMN hidden BOOLEAN DEFAULT FALSE;
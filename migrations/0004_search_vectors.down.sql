@@ -0,0 +1,2 @@
+ALTER TABLE feedbacks DROP COLUMN search_vector;
+ALTER TABLE ideas DROP COLUMN search_vector;
@@ -0,0 +1,12 @@
+-- Full-text search over ideas and feedbacks, see routes/search.ts. Titles
+-- weigh more than the content of an idea.
+ALTER TABLE ideas ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+) STORED;
+ALTER TABLE feedbacks ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce(content, ''))
+) STORED;
+
+CREATE INDEX ideas_search_index ON ideas USING GIN (search_vector);
+CREATE INDEX feedbacks_search_index ON feedbacks USING GIN (search_vector);
@@ -0,0 +1,2 @@
+ALTER TABLE feedbacks DROP COLUMN tombstoned;
+ALTER TABLE feedbacks DROP COLUMN parent_id;
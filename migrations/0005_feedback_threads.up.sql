@@ -0,0 +1,6 @@
+-- Replies point to the feedback they answer. Deleting a feedback that has
+-- replies tombstones it, so the thread stays readable.
+ALTER TABLE feedbacks ADD COLUMN parent_id INTEGER NULL REFERENCES feedbacks(id) ON DELETE CASCADE;
+ALTER TABLE feedbacks ADD COLUMN tombstoned BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX feedbacks_parent_id_index ON feedbacks (parent_id);
@@ -0,0 +1,8 @@
+ALTER TABLE user_groups ADD COLUMN user_id TEXT [];
+
+UPDATE user_groups g SET user_id = COALESCE((
+    SELECT ARRAY_AGG(m.user_id ORDER BY m.role <> 'owner', m.joined_at, m.user_id)
+    FROM user_groups_members m WHERE m.group_id = g.id
+), ARRAY[]::TEXT[]);
+
+DROP TABLE user_groups_members;
@@ -0,0 +1,24 @@
+CREATE TABLE user_groups_members (
+    group_id INTEGER NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (group_id, user_id),
+    FOREIGN KEY (group_id) REFERENCES user_groups(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+CREATE INDEX user_groups_members_user_id_index ON user_groups_members (user_id);
+
+-- Groups never recorded who created them, so the first listed member of each
+-- group becomes its owner. Duplicates and ids of deleted users are dropped.
+INSERT INTO user_groups_members (group_id, user_id, role)
+SELECT group_id, user_id, CASE WHEN position = 1 THEN 'owner' ELSE 'member' END
+FROM (
+    SELECT g.id AS group_id, m.user_id, RANK() OVER (PARTITION BY g.id ORDER BY MIN(m.ord)) AS position
+    FROM user_groups g
+    CROSS JOIN LATERAL unnest(g.user_id) WITH ORDINALITY AS m(user_id, ord)
+    JOIN users u ON u.id = m.user_id
+    GROUP BY g.id, m.user_id
+) members;
+
+ALTER TABLE user_groups DROP COLUMN user_id;
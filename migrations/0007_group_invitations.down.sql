@@ -0,0 +1,2 @@
+DROP TABLE group_join_requests;
+DROP TABLE group_invitations;
@@ -0,0 +1,37 @@
+-- Invitations are addressed to one user, or to nobody for link invitations
+-- that whoever holds the code can use. Either way a code is used only once.
+CREATE TABLE group_invitations (
+    id SERIAL PRIMARY KEY,
+    group_id INTEGER NOT NULL,
+    user_id TEXT NULL,
+    code TEXT NOT NULL UNIQUE,
+    invited_by TEXT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    responded_at TIMESTAMP NULL,
+    responded_by TEXT NULL,
+    FOREIGN KEY (group_id) REFERENCES user_groups(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (invited_by) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (responded_by) REFERENCES users(id) ON DELETE SET NULL
+);
+CREATE INDEX group_invitations_group_id_index ON group_invitations (group_id);
+CREATE INDEX group_invitations_user_id_index ON group_invitations (user_id);
+
+CREATE TABLE group_join_requests (
+    id SERIAL PRIMARY KEY,
+    group_id INTEGER NOT NULL,
+    user_id TEXT NOT NULL,
+    message TEXT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    decided_at TIMESTAMP NULL,
+    decided_by TEXT NULL,
+    FOREIGN KEY (group_id) REFERENCES user_groups(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (decided_by) REFERENCES users(id) ON DELETE SET NULL
+);
+CREATE INDEX group_join_requests_group_id_index ON group_join_requests (group_id);
+CREATE INDEX group_join_requests_user_id_index ON group_join_requests (user_id);
@@ -0,0 +1,3 @@
+DROP TABLE idea_revisions;
+ALTER TABLE ideas DROP COLUMN updated_at;
+ALTER TABLE ideas DROP COLUMN revision;
@@ -0,0 +1,29 @@
+ALTER TABLE ideas ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE ideas ADD COLUMN updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+UPDATE ideas SET updated_at = created_at;
+
+-- Revision n holds the idea as it was after its nth version was saved, the
+-- first being the idea as created.
+CREATE TABLE idea_revisions (
+    idea_id INTEGER NOT NULL,
+    revision INTEGER NOT NULL,
+    title TEXT,
+    content TEXT,
+    access TEXT,
+    tags TEXT [] NOT NULL DEFAULT '{}',
+    user_id TEXT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (idea_id, revision),
+    FOREIGN KEY (idea_id) REFERENCES ideas(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+INSERT INTO idea_revisions (idea_id, revision, title, content, access, tags, user_id, created_at)
+SELECT i.id, 1, i.title, i.content, i.access,
+    COALESCE((
+        SELECT ARRAY_AGG(t.name ORDER BY t.name)
+        FROM ideas_tags it JOIN tags t ON t.id = it.tag_id
+        WHERE it.idea_id = i.id
+    ), '{}'),
+    i.user_id, i.created_at
+FROM ideas i;
@@ -0,0 +1,20 @@
+DROP TRIGGER user_groups_members_touch ON user_groups_members;
+DROP TRIGGER users_pinned_tags_touch ON users_pinned_tags;
+DROP TRIGGER feedbacks_touch ON feedbacks;
+DROP TRIGGER ideas_tags_touch ON ideas_tags;
+DROP FUNCTION touch_group();
+DROP FUNCTION touch_user();
+DROP FUNCTION touch_idea();
+
+DROP TRIGGER feedbacks_version ON feedbacks;
+DROP TRIGGER ideas_version ON ideas;
+DROP TRIGGER user_groups_version ON user_groups;
+DROP TRIGGER tags_version ON tags;
+DROP TRIGGER users_version ON users;
+DROP FUNCTION bump_version();
+
+ALTER TABLE feedbacks DROP COLUMN version;
+ALTER TABLE ideas DROP COLUMN version;
+ALTER TABLE user_groups DROP COLUMN version;
+ALTER TABLE tags DROP COLUMN version;
+ALTER TABLE users DROP COLUMN version;
@@ -0,0 +1,72 @@
+-- Every row of a resource served on its own carries a version, used as its
+-- ETag. It goes up on each update of the row and whenever rows of other
+-- tables shown with it (tags, feedback counts, members) change.
+ALTER TABLE users ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE tags ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE user_groups ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE ideas ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE feedbacks ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+CREATE FUNCTION bump_version() RETURNS trigger AS $$
+BEGIN
+    NEW.version := OLD.version + 1;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER users_version BEFORE UPDATE ON users
+    FOR EACH ROW EXECUTE FUNCTION bump_version();
+CREATE TRIGGER tags_version BEFORE UPDATE ON tags
+    FOR EACH ROW EXECUTE FUNCTION bump_version();
+CREATE TRIGGER user_groups_version BEFORE UPDATE ON user_groups
+    FOR EACH ROW EXECUTE FUNCTION bump_version();
+CREATE TRIGGER ideas_version BEFORE UPDATE ON ideas
+    FOR EACH ROW EXECUTE FUNCTION bump_version();
+CREATE TRIGGER feedbacks_version BEFORE UPDATE ON feedbacks
+    FOR EACH ROW EXECUTE FUNCTION bump_version();
+
+-- An empty update is enough to bump the version of the parent row.
+CREATE FUNCTION touch_idea() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP <> 'DELETE' THEN
+        UPDATE ideas SET version = version WHERE id = NEW.idea_id;
+    END IF;
+    IF TG_OP <> 'INSERT' THEN
+        UPDATE ideas SET version = version WHERE id = OLD.idea_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION touch_user() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP <> 'DELETE' THEN
+        UPDATE users SET version = version WHERE id = NEW.user_id;
+    END IF;
+    IF TG_OP <> 'INSERT' THEN
+        UPDATE users SET version = version WHERE id = OLD.user_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION touch_group() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP <> 'DELETE' THEN
+        UPDATE user_groups SET version = version WHERE id = NEW.group_id;
+    END IF;
+    IF TG_OP <> 'INSERT' THEN
+        UPDATE user_groups SET version = version WHERE id = OLD.group_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ideas_tags_touch AFTER INSERT OR DELETE ON ideas_tags
+    FOR EACH ROW EXECUTE FUNCTION touch_idea();
+CREATE TRIGGER feedbacks_touch AFTER INSERT OR DELETE OR UPDATE OF hidden, tombstoned ON feedbacks
+    FOR EACH ROW EXECUTE FUNCTION touch_idea();
+CREATE TRIGGER users_pinned_tags_touch AFTER INSERT OR DELETE ON users_pinned_tags
+    FOR EACH ROW EXECUTE FUNCTION touch_user();
+CREATE TRIGGER user_groups_members_touch AFTER INSERT OR DELETE OR UPDATE ON user_groups_members
+    FOR EACH ROW EXECUTE FUNCTION touch_group();
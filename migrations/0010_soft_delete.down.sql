@@ -0,0 +1,8 @@
+DROP TRIGGER feedbacks_touch ON feedbacks;
+CREATE TRIGGER feedbacks_touch AFTER INSERT OR DELETE OR UPDATE OF hidden, tombstoned ON feedbacks
+    FOR EACH ROW EXECUTE FUNCTION touch_idea();
+
+DROP INDEX feedbacks_deleted_at_idx;
+DROP INDEX ideas_deleted_at_idx;
+ALTER TABLE feedbacks DROP COLUMN deleted_at;
+ALTER TABLE ideas DROP COLUMN deleted_at;
@@ -0,0 +1,12 @@
+-- Deleted ideas and feedbacks stay in their author's trash until they are
+-- restored or purged by purge.ts.
+ALTER TABLE ideas ADD COLUMN deleted_at TIMESTAMP;
+ALTER TABLE feedbacks ADD COLUMN deleted_at TIMESTAMP;
+
+CREATE INDEX ideas_deleted_at_idx ON ideas (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX feedbacks_deleted_at_idx ON feedbacks (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Deleting a feedback changes the activity shown with its idea.
+DROP TRIGGER feedbacks_touch ON feedbacks;
+CREATE TRIGGER feedbacks_touch AFTER INSERT OR DELETE OR UPDATE OF hidden, tombstoned, deleted_at ON feedbacks
+    FOR EACH ROW EXECUTE FUNCTION touch_idea();
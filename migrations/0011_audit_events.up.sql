@@ -0,0 +1,19 @@
+-- One row per change made through the API, see audit.ts. actor and
+-- resource_id are plain values rather than foreign keys so the trail outlives
+-- the users and rows it mentions.
+CREATE TABLE audit_events (
+    id SERIAL PRIMARY KEY,
+    actor TEXT,
+    action TEXT NOT NULL,
+    resource_type TEXT NOT NULL,
+    resource_id TEXT,
+    before JSONB,
+    after JSONB,
+    request_id TEXT,
+    ip TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX audit_events_created_at_idx ON audit_events (created_at);
+CREATE INDEX audit_events_actor_idx ON audit_events (actor, created_at);
+CREATE INDEX audit_events_resource_idx ON audit_events (resource_type, resource_id, created_at);
@@ -0,0 +1,11 @@
+-- Other names for a tag. Tag names given as input that match an alias are
+-- replaced by the tag it points to, see resolveTags in routes/tags.ts.
+-- Merging a tag leaves its name behind as an alias of the tag it went into.
+CREATE TABLE tag_aliases (
+    alias TEXT PRIMARY KEY,
+    tag_id INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+);
+
+CREATE INDEX tag_aliases_tag_id_idx ON tag_aliases (tag_id);
@@ -0,0 +1,4 @@
+DROP INDEX ideas_created_at_idx;
+DROP INDEX tag_aliases_alias_trgm_idx;
+DROP INDEX tags_name_trgm_idx;
+DROP EXTENSION IF EXISTS pg_trgm;
@@ -0,0 +1,9 @@
+-- Trigram indexes for tag autocomplete, see GET /tags/suggest. They serve
+-- both the similarity operator and prefix LIKE queries.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX tags_name_trgm_idx ON tags USING GIN (name gin_trgm_ops);
+CREATE INDEX tag_aliases_alias_trgm_idx ON tag_aliases USING GIN (alias gin_trgm_ops);
+
+-- Trending tags only look at recently created ideas.
+CREATE INDEX ideas_created_at_idx ON ideas (created_at);
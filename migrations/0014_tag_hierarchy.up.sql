@@ -0,0 +1,7 @@
+-- Tags can be filed under a parent tag, so "postgres" can sit under
+-- "databases". Loops longer than one tag are refused by PATCH /tags/:name,
+-- see routes/tags.ts. Children of a deleted tag become top level tags.
+ALTER TABLE tags ADD COLUMN parent_id INTEGER REFERENCES tags(id) ON DELETE SET NULL;
+ALTER TABLE tags ADD CONSTRAINT tags_parent_not_self CHECK (parent_id <> id);
+
+CREATE INDEX tags_parent_id_idx ON tags (parent_id);
@@ -0,0 +1,2 @@
+DROP INDEX ideas_tags_tag_id_idx;
+DROP TABLE user_follows;
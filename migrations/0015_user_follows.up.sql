@@ -0,0 +1,16 @@
+-- Users following other users. Ideas by followed authors show up in the
+-- follower's feed, see GET /users/:id/feed.
+CREATE TABLE user_follows (
+    follower_id TEXT NOT NULL,
+    followee_id TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (follower_id, followee_id),
+    CHECK (follower_id <> followee_id),
+    FOREIGN KEY (follower_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (followee_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX user_follows_followee_id_idx ON user_follows (followee_id);
+
+-- The feed looks up ideas by the tags users pinned.
+CREATE INDEX ideas_tags_tag_id_idx ON ideas_tags (tag_id);
@@ -0,0 +1,2 @@
+DROP INDEX ideas_access_idx;
+DROP INDEX ideas_user_id_idx;
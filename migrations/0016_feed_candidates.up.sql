@@ -0,0 +1,4 @@
+-- The feed looks up ideas by followed authors and by the groups they are
+-- shared with.
+CREATE INDEX ideas_user_id_idx ON ideas (user_id);
+CREATE INDEX ideas_access_idx ON ideas (access);
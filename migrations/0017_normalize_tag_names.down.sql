@@ -0,0 +1 @@
+-- The original names and the merged tags are gone, there is nothing to undo.
@@ -0,0 +1,58 @@
+-- Tag names given as input are trimmed and lowercased, see tagName in
+-- routes/tags.ts. Older tags get the same treatment here. Tags whose names
+-- only differ in case or spacing are merged like POST /tags/:name/merge does,
+-- into the one already named right or else the oldest. Names that are empty
+-- once trimmed are left as they are.
+CREATE TEMPORARY TABLE tag_renames ON COMMIT DROP AS
+SELECT id, lower(btrim(name)) AS name, first_value(id) OVER (
+    PARTITION BY lower(btrim(name))
+    ORDER BY name = lower(btrim(name)) DESC, id
+) AS survivor
+FROM tags
+WHERE btrim(name) <> '';
+
+-- A survivor filed below a tag merged into it would end up under itself.
+UPDATE tags s SET parent_id = NULL
+WHERE EXISTS (
+    WITH RECURSIVE ancestors (id) AS (
+        SELECT s.parent_id
+        UNION
+        SELECT t.parent_id FROM tags t JOIN ancestors a ON t.id = a.id
+    )
+    SELECT 1 FROM ancestors a JOIN tag_renames r ON r.id = a.id
+    WHERE r.survivor = s.id AND r.id <> s.id
+);
+
+INSERT INTO ideas_tags (idea_id, tag_id)
+SELECT it.idea_id, r.survivor FROM ideas_tags it JOIN tag_renames r ON r.id = it.tag_id
+WHERE r.id <> r.survivor
+ON CONFLICT DO NOTHING;
+
+INSERT INTO users_pinned_tags (user_id, tag_id)
+SELECT upt.user_id, r.survivor FROM users_pinned_tags upt JOIN tag_renames r ON r.id = upt.tag_id
+WHERE r.id <> r.survivor
+ON CONFLICT DO NOTHING;
+
+UPDATE tag_aliases a SET tag_id = r.survivor
+FROM tag_renames r WHERE a.tag_id = r.id AND r.id <> r.survivor;
+
+UPDATE tags t SET parent_id = NULLIF(r.survivor, t.id)
+FROM tag_renames r WHERE t.parent_id = r.id AND r.id <> r.survivor;
+
+UPDATE tags t SET upvotes = COALESCE(t.upvotes, 0) + merged.upvotes,
+    downvotes = COALESCE(t.downvotes, 0) + merged.downvotes
+FROM (
+    SELECT r.survivor, SUM(COALESCE(m.upvotes, 0)) AS upvotes, SUM(COALESCE(m.downvotes, 0)) AS downvotes
+    FROM tags m JOIN tag_renames r ON r.id = m.id
+    WHERE r.id <> r.survivor
+    GROUP BY r.survivor
+) merged
+WHERE t.id = merged.survivor;
+
+DELETE FROM tags t USING tag_renames r WHERE t.id = r.id AND r.id <> r.survivor;
+
+-- An alias can't share its name with a tag.
+DELETE FROM tag_aliases a USING tag_renames r WHERE a.alias = r.name;
+
+UPDATE tags t SET name = r.name
+FROM tag_renames r WHERE t.id = r.id AND t.name <> r.name;
@@ -0,0 +1,5 @@
+DROP TRIGGER feedbacks_touch ON feedbacks;
+CREATE TRIGGER feedbacks_touch AFTER INSERT OR DELETE OR UPDATE OF hidden, tombstoned, deleted_at ON feedbacks
+    FOR EACH ROW EXECUTE FUNCTION touch_idea();
+
+DROP INDEX feedbacks_idea_id_idx;
@@ -0,0 +1,7 @@
+-- Idea activity counts feedbacks by their idea_id, so moving a feedback to
+-- another idea changes the activity shown with both.
+CREATE INDEX feedbacks_idea_id_idx ON feedbacks (idea_id);
+
+DROP TRIGGER feedbacks_touch ON feedbacks;
+CREATE TRIGGER feedbacks_touch AFTER INSERT OR DELETE OR UPDATE OF idea_id, hidden, tombstoned, deleted_at ON feedbacks
+    FOR EACH ROW EXECUTE FUNCTION touch_idea();
@@ -0,0 +1,13 @@
+DROP INDEX group_join_requests_pending_idx;
+DROP INDEX group_invitations_pending_idx;
+
+-- Expired rows read as expired while pending too.
+UPDATE group_join_requests SET status = 'pending' WHERE status = 'expired';
+UPDATE group_invitations SET status = 'pending' WHERE status = 'expired';
+
+ALTER TABLE group_join_requests DROP CONSTRAINT group_join_requests_status_check;
+ALTER TABLE group_join_requests ADD CONSTRAINT group_join_requests_status_check
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled'));
+ALTER TABLE group_invitations DROP CONSTRAINT group_invitations_status_check;
+ALTER TABLE group_invitations ADD CONSTRAINT group_invitations_status_check
+    CHECK (status IN ('pending', 'accepted', 'declined', 'revoked'));
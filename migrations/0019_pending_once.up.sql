@@ -0,0 +1,29 @@
+-- A user has at most one pending invitation and one pending join request per
+-- group. Pending rows past their expiry are marked 'expired' before a new one
+-- is created, see routes/groups.ts.
+ALTER TABLE group_invitations DROP CONSTRAINT group_invitations_status_check;
+ALTER TABLE group_invitations ADD CONSTRAINT group_invitations_status_check
+    CHECK (status IN ('pending', 'accepted', 'declined', 'revoked', 'expired'));
+ALTER TABLE group_join_requests DROP CONSTRAINT group_join_requests_status_check;
+ALTER TABLE group_join_requests ADD CONSTRAINT group_join_requests_status_check
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'expired'));
+
+UPDATE group_invitations SET status = 'expired' WHERE status = 'pending' AND expires_at <= now();
+UPDATE group_join_requests SET status = 'expired' WHERE status = 'pending' AND expires_at <= now();
+
+-- Duplicates created before this keep only their newest pending row.
+UPDATE group_invitations inv SET status = 'revoked', responded_at = now()
+WHERE inv.status = 'pending' AND EXISTS (
+    SELECT 1 FROM group_invitations newer
+    WHERE newer.group_id = inv.group_id AND newer.user_id = inv.user_id
+    AND newer.status = 'pending' AND newer.id > inv.id
+);
+UPDATE group_join_requests r SET status = 'cancelled', decided_at = now()
+WHERE r.status = 'pending' AND EXISTS (
+    SELECT 1 FROM group_join_requests newer
+    WHERE newer.group_id = r.group_id AND newer.user_id = r.user_id
+    AND newer.status = 'pending' AND newer.id > r.id
+);
+
+CREATE UNIQUE INDEX group_invitations_pending_idx ON group_invitations (group_id, user_id) WHERE status = 'pending';
+CREATE UNIQUE INDEX group_join_requests_pending_idx ON group_join_requests (group_id, user_id) WHERE status = 'pending';
@@ -0,0 +1,2 @@
+DROP INDEX idea_votes_created_at_idx;
+DROP INDEX feedbacks_created_at_idx;
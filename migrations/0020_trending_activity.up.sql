@@ -0,0 +1,4 @@
+-- Trending tags count the feedbacks and votes cast in their window, whenever
+-- the idea was created.
+CREATE INDEX feedbacks_created_at_idx ON feedbacks (created_at);
+CREATE INDEX idea_votes_created_at_idx ON idea_votes (created_at);
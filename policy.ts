@@ -0,0 +1,145 @@
+import { createMiddleware } from "hono/factory";
+import { sql } from "./db.ts";
+import { currentUser } from "./auth.ts";
+import { ApiError, type ErrorCode } from "./errors.ts";
+
+export type Role = "admin" | "moderator" | "user";
+
+type Rule = {
+	// Whether the author of the resource is allowed.
+	owner: boolean;
+	// Roles allowed regardless of ownership.
+	roles: Role[];
+};
+
+/**
+ * Every permission check in the API. A caller is allowed when they own the
+ * resource and the rule allows owners, or when their users.role is listed.
+ * Users without a known role are treated as "user".
+ */
+export const policy = {
+	"idea:update": { owner: true, roles: [] },
+	"idea:delete": { owner: true, roles: ["admin"] },
+	"idea:restore": { owner: true, roles: ["admin"] },
+	"idea:hide": { owner: false, roles: ["admin", "moderator"] },
+	"feedback:update": { owner: true, roles: [] },
+	"feedback:delete": { owner: true, roles: ["admin"] },
+	"feedback:restore": { owner: true, roles: ["admin"] },
+	"feedback:hide": { owner: false, roles: ["admin", "moderator"] },
+	"tag:update": { owner: false, roles: ["admin"] },
+	"tag:merge": { owner: false, roles: ["admin"] },
+	"tag:alias": { owner: false, roles: ["admin"] },
+	"tag:delete": { owner: false, roles: ["admin"] },
+	"group:update": { owner: true, roles: ["admin"] },
+	"group:delete": { owner: true, roles: ["admin"] },
+	// Group owners and admins manage members too, see routes/groups.ts.
+	"group:manage": { owner: true, roles: ["admin"] },
+	"group:transfer": { owner: true, roles: ["admin"] },
+	"user:update": { owner: true, roles: ["admin"] },
+	"user:delete": { owner: true, roles: ["admin"] },
+	"user:set_role": { owner: false, roles: ["admin"] },
+	// Reading everyone's changes in the audit log.
+	"user:audit": { owner: false, roles: ["admin"] },
+} satisfies Record<string, Rule>;
+
+export type Action = keyof typeof policy;
+
+type Resource = Action extends `${infer R}:${string}` ? R : never;
+
+// How to find a resource from its route parameter, who owns it and whether
+// it is in the trash, and the error code when there is none.
+const resources: Record<
+	Resource,
+	{
+		missing: ErrorCode;
+		param: string;
+		numeric: boolean;
+		owner: (
+			key: string,
+		) => Promise<{ owner: string | null; deleted?: boolean }[]>;
+	}
+> = {
+	idea: {
+		missing: "IDEA_NOT_FOUND",
+		param: "id",
+		numeric: true,
+		owner: (id) => sql`SELECT user_id AS owner, deleted_at IS NOT NULL AS deleted FROM ideas WHERE id = ${id}`,
+	},
+	feedback: {
+		missing: "FEEDBACK_NOT_FOUND",
+		param: "id",
+		numeric: true,
+		owner: (id) => sql`SELECT user_id AS owner, deleted_at IS NOT NULL AS deleted FROM feedbacks WHERE id = ${id}`,
+	},
+	tag: {
+		missing: "TAG_NOT_FOUND",
+		param: "name",
+		numeric: false,
+		owner: (name) => sql`SELECT NULL AS owner FROM tags WHERE name = ${name}`,
+	},
+	group: {
+		missing: "GROUP_NOT_FOUND",
+		param: "id",
+		numeric: true,
+		owner: (id) => sql`SELECT (
+			SELECT m.user_id FROM user_groups_members m
+			WHERE m.group_id = g.id AND m.role = 'owner' LIMIT 1
+		) AS owner FROM user_groups g WHERE g.id = ${id}`,
+	},
+	user: {
+		missing: "USER_NOT_FOUND",
+		param: "id",
+		numeric: false,
+		owner: (id) => sql`SELECT id AS owner FROM users WHERE id = ${id}`,
+	},
+};
+
+export async function roleOf(user_id: string): Promise<Role> {
+	const rows = await sql`SELECT role FROM users WHERE id = ${user_id}`;
+	const role = rows[0]?.role;
+	return role === "admin" || role === "moderator" ? role : "user";
+}
+
+// Whether the policy lets a caller with `role` perform `action`, as the owner
+// of the resource or not.
+export function allows(action: Action, role: Role, owner: boolean): boolean {
+	const rule: Rule = policy[action];
+	return (rule.owner && owner) || rule.roles.includes(role);
+}
+
+export async function can(
+	user_id: string,
+	action: Action,
+	owner_id: string | null = null,
+): Promise<boolean> {
+	const owner = owner_id !== null && owner_id === user_id;
+	// Owners the rule allows are let through without looking up their role.
+	if (owner && policy[action].owner) {
+		return true;
+	}
+	return allows(action, await roleOf(user_id), owner);
+}
+
+/**
+ * Rejects the request with 403 unless the caller may perform `action` on the
+ * resource named by the route parameter (404 when it does not exist). Deleted
+ * resources only exist for the restore action, and only deleted ones for it.
+ */
+export const authorize = (action: Action) =>
+	createMiddleware(async (c, next) => {
+		const caller = currentUser(c);
+		const resource = resources[action.split(":")[0] as Resource];
+		const key = c.req.param(resource.param) ?? "";
+		const rows =
+			resource.numeric && !/^\d+$/.test(key) ? [] : await resource.owner(key);
+		if (
+			!rows[0] ||
+			(rows[0].deleted ?? false) !== action.endsWith(":restore")
+		) {
+			throw new ApiError(resource.missing);
+		}
+		if (!(await can(caller, action, rows[0].owner))) {
+			throw new ApiError("FORBIDDEN", `Not allowed to ${action}`);
+		}
+		await next();
+	});
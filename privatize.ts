@@ -0,0 +1,52 @@
+import { s3, sql } from "./db.ts";
+
+// Idea files used to be written with a public-read ACL and linked straight
+// from the bucket. This makes those objects private and points the ideas at
+// /ideas/file/:id/:name instead, which only serves callers who can see them.
+const bucket_url = `https://${process.env.AWS_BUCKET_NAME}.fly.storage.tigris.dev/`;
+
+/**
+ * Rewrites every public idea file with a private ACL and replaces its bucket
+ * URL with the URL the server serves it from under `public_url`. Returns the
+ * number of files changed.
+ */
+export async function privatize(public_url: string) {
+	let files = 0;
+
+	const ideas = await sql`SELECT id FROM ideas i
+		WHERE EXISTS (SELECT 1 FROM unnest(i.files_url) u WHERE starts_with(u, ${bucket_url}))`;
+	for (const { id } of ideas) {
+		files += await sql.begin(async (sql) => {
+			const [idea] = await sql`SELECT files_url FROM ideas WHERE id = ${id} FOR UPDATE`;
+			let changed = 0;
+			for (const url of (idea?.files_url ?? []) as string[]) {
+				const key = url.startsWith(bucket_url) ? url.slice(bucket_url.length) : null;
+				const name = key?.startsWith(`${id}/`) ? key.slice(`${id}/`.length) : null;
+				if (!key || !name) {
+					continue;
+				}
+				const file = s3.file(key, { acl: "private" });
+				await file.write(await file.arrayBuffer());
+				const served = new URL(`/ideas/file/${id}/${encodeURIComponent(name)}`, public_url).href;
+				await sql`UPDATE ideas SET files_url = array_replace(files_url, ${url}, ${served}) WHERE id = ${id}`;
+				changed++;
+			}
+			return changed;
+		});
+	}
+
+	return files;
+}
+
+if (import.meta.main) {
+	const public_url = process.env.PUBLIC_URL;
+	if (!public_url) {
+		console.error("Set PUBLIC_URL to the URL the server is reachable at");
+		process.exit(1);
+	}
+	try {
+		console.log(`Made ${await privatize(public_url)} idea files private`);
+	} finally {
+		await sql.end();
+	}
+}
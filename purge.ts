@@ -0,0 +1,115 @@
+import { s3, sql } from "./db.ts";
+
+// Days deleted ideas and feedbacks stay in the trash before purge() removes
+// them for good.
+export const retention_days = Number(process.env.TRASH_RETENTION_DAYS ?? 30);
+
+if (!Number.isInteger(retention_days) || retention_days < 0) {
+	throw new Error("TRASH_RETENTION_DAYS must be a whole number of days");
+}
+
+const expired = () =>
+	sql`deleted_at < now() - make_interval(days => ${retention_days})`;
+
+// Key in the bucket of a file URL, null for files stored elsewhere. Idea
+// files are served from /ideas/file/:id/:name, older ones straight from the
+// bucket.
+export function objectKey(url: string): string | null {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return null;
+	}
+	const served = /^\/ideas\/file\/(\d+)\/([^/]+)$/.exec(parsed.pathname);
+	if (served) {
+		return `${served[1]}/${decodeURIComponent(served[2] as string)}`;
+	}
+	if (parsed.host === `${process.env.AWS_BUCKET_NAME}.fly.storage.tigris.dev`) {
+		return decodeURIComponent(parsed.pathname.slice(1)) || null;
+	}
+	return null;
+}
+
+async function deleteFiles(urls: string[]) {
+	for (const url of urls) {
+		const key = objectKey(url);
+		if (key) {
+			await s3.file(key).delete();
+		}
+	}
+}
+
+/**
+ * Hard-deletes the ideas and feedbacks deleted more than `retention_days`
+ * ago along with their files. An idea takes its feedbacks with it. A feedback
+ * that still has replies is turned into an empty tombstone so the replies
+ * keep their place, and tombstones left without replies are dropped.
+ */
+export async function purge() {
+	let ideas = 0;
+	let feedbacks = 0;
+
+	for (const { id } of await sql`SELECT id FROM ideas WHERE ${expired()}`) {
+		// Files are only deleted once the rows pointing to them are gone, so a
+		// failed purge never leaves an idea without its files.
+		const files = await sql.begin(async (sql) => {
+			const [idea] = await sql`SELECT i.files_url, COALESCE(
+				(SELECT ARRAY_AGG(u) FROM feedbacks f, unnest(f.files_url) u WHERE f.idea_id = i.id),
+				ARRAY[]::TEXT[]
+			) AS feedback_files
+			FROM ideas i WHERE i.id = ${id} AND ${expired()} FOR UPDATE`;
+			if (!idea) {
+				return null;
+			}
+			await sql`DELETE FROM ideas WHERE id = ${id}`;
+			return [...(idea.files_url ?? []), ...idea.feedback_files];
+		});
+		if (files) {
+			await deleteFiles(files);
+			ideas++;
+		}
+	}
+
+	for (const { id } of await sql`SELECT id FROM feedbacks WHERE ${expired()}`) {
+		const files = await sql.begin(async (sql) => {
+			const [feedback] = await sql`SELECT f.files_url, f.parent_id,
+				EXISTS (SELECT 1 FROM feedbacks r WHERE r.parent_id = f.id) AS has_replies
+				FROM feedbacks f WHERE f.id = ${id} AND ${expired()} FOR UPDATE`;
+			if (!feedback) {
+				return null;
+			}
+			const files: string[] = feedback.files_url ?? [];
+			if (feedback.has_replies) {
+				await sql`UPDATE feedbacks SET tombstoned = TRUE, deleted_at = NULL,
+				content = '', files_url = '{}', user_tag = NULL WHERE id = ${id}`;
+				return files;
+			}
+			await sql`DELETE FROM feedbacks WHERE id = ${id}`;
+			let parent_id = feedback.parent_id;
+			while (parent_id) {
+				const [pruned] = await sql`DELETE FROM feedbacks f WHERE f.id = ${parent_id} AND f.tombstoned
+				AND NOT EXISTS (SELECT 1 FROM feedbacks r WHERE r.parent_id = f.id) RETURNING parent_id`;
+				parent_id = pruned?.parent_id;
+			}
+			return files;
+		});
+		if (files) {
+			await deleteFiles(files);
+			feedbacks++;
+		}
+	}
+
+	return { ideas, feedbacks };
+}
+
+if (import.meta.main) {
+	try {
+		const { ideas, feedbacks } = await purge();
+		console.log(
+			`Purged ${ideas} ideas and ${feedbacks} feedbacks deleted more than ${retention_days} days ago`,
+		);
+	} finally {
+		await sql.end();
+	}
+}
@@ -0,0 +1,172 @@
+import { Hono } from "hono";
+import "zod-openapi/extend";
+import { z } from "zod";
+import { describeRoute } from "hono-openapi";
+import { resolver } from "hono-openapi/zod";
+import { zValidator } from "./validator.ts";
+import { ApiError } from "../errors.ts";
+import { sql } from "../db.ts";
+import { currentUser } from "../auth.ts";
+import { can } from "../policy.ts";
+import { error500, json200, problems } from "./error.ts";
+import { pageQuery, pageSchema, page_params, paginate } from "./pagination.ts";
+
+const app = new Hono();
+
+const actor = z.string().optional().openapi({
+	title: "Actor",
+	description: "Only events caused by this user",
+	example: "1",
+});
+
+const resource_type = z.string().optional().openapi({
+	title: "Resource type",
+	description:
+		"Only events on this kind of resource: idea, feedback, group, group_invitation, group_join_request, user or tag",
+	example: "group",
+});
+
+const resource_id = z.string().optional().openapi({
+	title: "Resource ID",
+	description: "Only events on the resource with this ID (or tag name)",
+	example: "1",
+});
+
+const from = z.string().datetime({ offset: true }).optional().openapi({
+	title: "From",
+	description: "Only events at or after this time",
+	example: "2025-01-01T00:00:00.000Z",
+});
+
+const to = z.string().datetime({ offset: true }).optional().openapi({
+	title: "To",
+	description: "Only events before this time",
+	example: "2025-02-01T00:00:00.000Z",
+});
+
+const audit_params = [
+	{
+		name: "actor",
+		in: "query",
+		required: false,
+		description: "Filter by actor",
+		schema: resolver(actor),
+	},
+	{
+		name: "resource_type",
+		in: "query",
+		required: false,
+		description: "Filter by resource type",
+		schema: resolver(resource_type),
+	},
+	{
+		name: "resource_id",
+		in: "query",
+		required: false,
+		description: "Filter by resource ID",
+		schema: resolver(resource_id),
+	},
+	{
+		name: "from",
+		in: "query",
+		required: false,
+		description: "Start of the time range",
+		schema: resolver(from),
+	},
+	{
+		name: "to",
+		in: "query",
+		required: false,
+		description: "End of the time range, excluded",
+		schema: resolver(to),
+	},
+];
+
+const auditEventSchema = z.object({
+	id: z.number().openapi({
+		title: "ID",
+		example: 1,
+	}),
+	actor: z.string().nullable().openapi({
+		title: "Actor",
+		description: "User who made the change, null for anonymous callers and jobs",
+		example: "1",
+	}),
+	action: z.string().openapi({
+		title: "Action",
+		description: "Route that made the change",
+		example: "DELETE /groups/:id",
+	}),
+	resource_type: z.string().openapi({
+		title: "Resource type",
+		example: "group",
+	}),
+	resource_id: z.string().nullable().openapi({
+		title: "Resource ID",
+		example: "1",
+	}),
+	before: z.record(z.unknown()).nullable().openapi({
+		title: "Before",
+		description: "The resource before the change, null when it was created",
+	}),
+	after: z.record(z.unknown()).nullable().openapi({
+		title: "After",
+		description: "The resource after the change, null when it was deleted",
+	}),
+	request_id: z.string().nullable().openapi({
+		title: "Request ID",
+		example: "0b3c43f5-40c4-4bd3-9f5e-7d2c3c1d8f0a",
+	}),
+	ip: z.string().nullable().openapi({
+		title: "IP",
+		example: "203.0.113.7",
+	}),
+	created_at: z.string().openapi({
+		title: "Created at",
+		example: "2025-01-01T00:00:00.000Z",
+	}),
+});
+
+app.get(
+	"/admin/audit",
+	describeRoute({
+		method: "get",
+		path: "/admin/audit",
+		tags: ["admin"],
+		description: "Changes made through the API, newest first (admins only)",
+		parameters: [...audit_params, ...page_params],
+		responses: {
+			200: json200(pageSchema(auditEventSchema)),
+			400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			500: error500,
+		},
+	}),
+	zValidator(
+		"query",
+		pageQuery.extend({ actor, resource_type, resource_id, from, to }),
+	),
+	async (c) => {
+		const { actor, resource_type, resource_id, from, to, ...page } =
+			c.req.valid("query");
+		if (!(await can(currentUser(c), "user:audit"))) {
+			throw new ApiError("FORBIDDEN", "Only admins can read the audit log");
+		}
+		const events = sql`SELECT * FROM audit_events e WHERE TRUE
+			${actor ? sql`AND e.actor = ${actor}` : sql``}
+			${resource_type ? sql`AND e.resource_type = ${resource_type}` : sql``}
+			${resource_id ? sql`AND e.resource_id = ${resource_id}` : sql``}
+			${from ? sql`AND e.created_at >= ${from}::timestamptz` : sql``}
+			${to ? sql`AND e.created_at < ${to}::timestamptz` : sql``}`;
+		return c.json(
+			await paginate(
+				events,
+				[{ column: "created_at", direction: "desc" }],
+				page,
+			),
+		);
+	},
+);
+
+export default app;
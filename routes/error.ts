@@ -1,48 +1,104 @@
 import { resolver } from "hono-openapi/zod";
 import { z } from "zod";
 import "zod-openapi/extend";
+import { type ErrorCode, errors } from "../errors.ts";
 
-export const errorSchema = z.object({
-  name: z.string().nullable(),
-  message: z.string(),
+const fieldErrorSchema = z.object({
+  location: z.string().openapi({
+    title: "Location",
+    description: "Part of the request that failed: param, query, json, header or form",
+    example: "json",
+  }),
+  path: z.string().openapi({
+    title: "Path",
+    description: "Dotted path of the field in that part",
+    example: "title",
+  }),
+  message: z.string().openapi({
+    title: "Message",
+    example: "Required",
+  }),
+  code: z.string().openapi({
+    title: "Code",
+    description: "zod issue code",
+    example: "invalid_type",
+  }),
+});
+
+export const problemSchema = z.object({
+  type: z.string().openapi({
+    title: "Type",
+    example: "urn:feedback-server:error:IDEA_NOT_FOUND",
+  }),
+  title: z.string().openapi({
+    title: "Title",
+    example: "Idea not found",
+  }),
+  status: z.number().openapi({
+    title: "Status",
+    example: 404,
+  }),
+  detail: z.string().openapi({
+    title: "Detail",
+    example: "Idea not found",
+  }),
+  instance: z.string().openapi({
+    title: "Instance",
+    description: "Path of the request",
+    example: "/ideas/1",
+  }),
+  code: z.string().openapi({
+    title: "Code",
+    description: "Stable code of the error, see errors.ts",
+    example: "IDEA_NOT_FOUND",
+  }),
+  request_id: z.string().openapi({
+    title: "Request ID",
+    example: "0b3c43f5-40c4-4bd3-9f5e-7d2c3c1d8f0a",
+  }),
+  errors: z.array(fieldErrorSchema).optional().openapi({
+    title: "Errors",
+    description: "Every failed field, for VALIDATION_FAILED",
+  }),
 }).openapi({
-  title: "Error",
-  example: {
-    name: "Some error name",
-    message: "Some error message",
-  },
+  title: "Problem",
 });
 
-export const error500 = {
-  description: "Internal server error",
-  content: {
-    "application/json": {
-      schema: resolver(errorSchema),
-      example: {
-        name: "Internal server error",
-        message: "Some error message",
+// application/problem+json response that can carry any of `codes`, which
+// should all share one status.
+export const problems = (code: ErrorCode, ...more: ErrorCode[]) => {
+  const codes: [ErrorCode, ...ErrorCode[]] = [code, ...more];
+  return {
+    description: codes
+      .map((code) => `- \`${code}\`: ${errors[code].title}`)
+      .join("\n"),
+    content: {
+      "application/problem+json": {
+        schema: resolver(problemSchema.extend({ code: z.enum(codes) })),
+        example: {
+          type: `urn:feedback-server:error:${code}`,
+          title: errors[code].title,
+          status: errors[code].status,
+          detail: errors[code].title,
+          instance: "/",
+          code,
+          request_id: "0b3c43f5-40c4-4bd3-9f5e-7d2c3c1d8f0a",
+        },
       },
     },
-  },
+  };
 };
 
-export const error404 = {
-  description: "User not found",
-  content: {
-    "application/json": {
-      schema: resolver(errorSchema),
-      example: {
-        name: "User not found",
-        message: "User not found",
-      },
-    },
-  },
-};
+export const error500 = problems("INTERNAL_ERROR");
 
 export const resp200 = {
   description: "Successful response",
 };
 
+export const resp304 = {
+  description: "Not modified since the ETag given in If-None-Match",
+};
+
 export const json200 = (schema: z.ZodType) => {
   return {
     description: "Successful response",
@@ -0,0 +1,67 @@
+import type { Context } from "hono";
+import { ApiError } from "../errors.ts";
+import { resolver } from "hono-openapi/zod";
+import { z } from "zod";
+import "zod-openapi/extend";
+
+// The ETag of a resource is the version column of its row, quoted.
+const etag = (version: number) => `"${version}"`;
+
+export const if_none_match_param = {
+	name: "If-None-Match",
+	in: "header",
+	required: false,
+	description: "ETag of a copy the client already has, answered with 304 when current",
+	schema: resolver(z.string()),
+};
+
+export const if_match_param = {
+	name: "If-Match",
+	in: "header",
+	required: true,
+	description: "ETag of the version being updated, from a previous GET",
+	schema: resolver(z.string()),
+};
+
+/**
+ * Sets the ETag header for the resource about to be returned and tells
+ * whether the request's If-None-Match already names it, in which case the
+ * handler answers 304 without a body.
+ */
+export function notModified(c: Context, version: number): boolean {
+	const tag = etag(version);
+	c.header("ETag", tag);
+	const header = c.req.header("If-None-Match");
+	if (header === undefined) {
+		return false;
+	}
+	return (
+		header.trim() === "*" ||
+		header
+			.split(",")
+			.some((value) => value.trim().replace(/^W\//, "") === tag)
+	);
+}
+
+export function setETag(c: Context, version: number) {
+	c.header("ETag", etag(version));
+}
+
+/**
+ * The version a write expects to replace, from its If-Match header. Writes
+ * without one get 428 so nobody overwrites changes they have not seen.
+ */
+export function expectedVersion(c: Context): number {
+	const header = c.req.header("If-Match");
+	if (header === undefined) {
+		throw new ApiError("IF_MATCH_REQUIRED");
+	}
+	const match = /^"(\d+)"$/.exec(header.trim());
+	if (!match) {
+		throw modified();
+	}
+	return Number(match[1]);
+}
+
+export const modified = () =>
+	new ApiError("RESOURCE_MODIFIED");
@@ -3,10 +3,30 @@ import { env } from "hono/adapter";
 import "zod-openapi/extend";
 import { z } from "zod";
 import { describeRoute } from "hono-openapi";
-import { resolver, validator as zValidator } from "hono-openapi/zod";
-import { HTTPException } from "hono/http-exception";
-import { sql } from "../db.ts";
-import { error404, error500, json200, resp200 } from "./error.ts";
+import { resolver } from "hono-openapi/zod";
+import { zValidator } from "./validator.ts";
+import { ApiError } from "../errors.ts";
+import type { Row } from "postgres";
+import { feedbackColumns, found, sql } from "../db.ts";
+import { assertSelf } from "../auth.ts";
+import { authorize } from "../policy.ts";
+import { visibleFeedbacks, visibleIdeas } from "../access.ts";
+import {
+    type SortKey,
+    pageQuery,
+    pageSchema,
+    page_params,
+    paginate,
+} from "./pagination.ts";
+import { error500, json200, problems, resp200, resp304 } from "./error.ts";
+import {
+    expectedVersion,
+    if_match_param,
+    if_none_match_param,
+    modified,
+    notModified,
+    setETag,
+} from "./etag.ts";
 
 // CREATE TABLE IF NOT EXISTS feedbacks (
 //     id SERIAL PRIMARY KEY,
@@ -49,8 +69,9 @@ const feedbackSchema = z.object({
         title: "Idea ID",
         example: 1,
     }),
-    user_id: z.string().openapi({
+    user_id: z.string().optional().openapi({
         title: "User ID",
+        description: "Author of the feedback, defaults to the authenticated user",
         example: "1",
     }),
     content: z.string().openapi({
@@ -68,6 +89,11 @@ const feedbackSchema = z.object({
         title: "Feedback links",
         example: [1, 2],
     }),
+    parent_id: z.number().nullable().optional().openapi({
+        title: "Parent ID",
+        description: "Feedback this one replies to, null for top level feedbacks",
+        example: null,
+    }),
     user_tag: z.string().nullable().openapi({
         title: "User tag",
         example: "tag1",
@@ -82,6 +108,91 @@ const feedbackSchema = z.object({
     }),
 });
 
+const threadFeedbackSchema = feedbackSchema.extend({
+    user_id: z.string().nullable().openapi({
+        title: "User ID",
+        description: "Author of the feedback, null for tombstones",
+        example: "1",
+    }),
+    content: z.string().nullable().openapi({
+        title: "Content",
+        description: "Null for tombstones",
+        example: "Feedback content",
+    }),
+    tombstoned: z.boolean().openapi({
+        title: "Tombstoned",
+        description:
+            "The feedback was deleted or hidden but is kept in place for its replies",
+        example: false,
+    }),
+    depth: z.number().openapi({
+        title: "Depth",
+        description: "Number of ancestors, 0 for top level feedbacks",
+        example: 1,
+    }),
+    path: z.array(z.number()).openapi({
+        title: "Path",
+        description: "IDs from the top level feedback down to this one",
+        example: [1, 4],
+    }),
+});
+
+const thread_sort = z.enum(["newest", "top", "score"]).default("newest").openapi({
+    title: "Sort",
+    description:
+        "newest first, top for the most upvoted or score for the best upvotes - downvotes",
+    example: "newest",
+});
+
+const thread_sorts: Record<z.infer<typeof thread_sort>, SortKey[]> = {
+    newest: [{ column: "created_at", direction: "desc" }],
+    top: [{ column: "upvotes", direction: "desc" }],
+    score: [{ column: "score", direction: "desc" }],
+};
+
+const threadSchema = z.object({
+    ancestors: z.array(threadFeedbackSchema).openapi({
+        title: "Ancestors",
+        description: "Parents of the feedback, top level feedback first",
+    }),
+    feedback: threadFeedbackSchema,
+    descendants: z.array(threadFeedbackSchema).openapi({
+        title: "Descendants",
+        description: "Replies to the feedback, depth first",
+    }),
+});
+
+// Whether the feedback aliased `alias` only shows in threads as a tombstone:
+// tombstoned, hidden or in the trash.
+const masked = (alias: string) =>
+    sql`(${sql(alias)}.tombstoned OR ${sql(alias)}.hidden OR ${sql(alias)}.deleted_at IS NOT NULL)`;
+
+// Columns of a thread row `t`. Masked feedbacks keep their place in the
+// thread but lose their author and content.
+const threadColumns = () => sql`t.id, t.idea_id, t.parent_id,
+    CASE WHEN ${masked("t")} THEN NULL ELSE t.user_id END AS user_id,
+    CASE WHEN ${masked("t")} THEN NULL ELSE t.content END AS content,
+    CASE WHEN ${masked("t")} THEN '{}' ELSE t.files_url END AS files_url,
+    t.feedback_links,
+    CASE WHEN ${masked("t")} THEN NULL ELSE t.user_tag END AS user_tag,
+    t.upvotes, t.downvotes, t.created_at,
+    ${masked("t")} AS tombstoned,
+    t.depth, t.path`;
+
+// Drops tombstones that no longer lead to a visible reply. Rows must carry
+// their path.
+function prune(rows: Row[]) {
+    const kept = new Set<number>();
+    for (const row of rows) {
+        if (!row.tombstoned) {
+            for (const id of row.path) {
+                kept.add(id);
+            }
+        }
+    }
+    return rows.filter((row) => kept.has(row.id));
+}
+
 const app = new Hono();
 
 app.get(
@@ -91,14 +202,17 @@ app.get(
         path: "/feedbacks",
         tags: ["feedbacks"],
         description: "Get all feedbacks",
+        parameters: page_params,
         responses: {
-            200: json200(feedbackSchema),
+            200: json200(pageSchema(feedbackSchema)),
+            400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
             500: error500,
         },
     }),
+    zValidator("query", pageQuery),
     async (c) => {
-        const rows = await sql`SELECT * FROM feedbacks`;
-        return c.json(rows);
+        const feedbacks = sql`SELECT ${feedbackColumns("f")} FROM feedbacks f WHERE ${visibleFeedbacks(c.get("user_id"))}`;
+        return c.json(await paginate(feedbacks, [{ column: "created_at", direction: "desc" }], c.req.valid("query")));
     },
 );
 
@@ -109,21 +223,138 @@ app.get(
         path: "/feedbacks/:id",
         tags: ["feedbacks"],
         description: "Get a feedback by ID",
-        parameters: [id_param],
+        parameters: [id_param, if_none_match_param],
         responses: {
             200: json200(feedbackSchema),
-            404: error404,
+            304: resp304,
+            400: problems("VALIDATION_FAILED"),
+            404: problems("FEEDBACK_NOT_FOUND"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
     async (c) => {
         const { id } = c.req.valid("param");
-        const rows = await sql`SELECT * FROM feedbacks WHERE id = ${id}`;
-        if (rows.length === 0) {
-            throw new HTTPException(404, { message: "Feedback not found" });
+        const feedback = await found(
+            sql`SELECT ${feedbackColumns("f")} FROM feedbacks f WHERE f.id = ${id} AND ${visibleFeedbacks(c.get("user_id"))}`,
+            "FEEDBACK_NOT_FOUND",
+        );
+        if (notModified(c, feedback.version)) {
+            return c.body(null, 304);
         }
-        return c.json(rows[0]);
+        return c.json(feedback);
+    },
+);
+
+app.get(
+    "/feedbacks/:id/thread",
+    describeRoute({
+        method: "get",
+        path: "/feedbacks/:id/thread",
+        tags: ["feedbacks"],
+        description: "Get a feedback with its ancestors and all its replies",
+        parameters: [id_param],
+        responses: {
+            200: json200(threadSchema),
+            400: problems("VALIDATION_FAILED"),
+            404: problems("FEEDBACK_NOT_FOUND"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const viewer = c.get("user_id");
+        const up = await sql`WITH RECURSIVE up AS (
+            SELECT f.*, 0 AS level FROM feedbacks f WHERE f.id = ${id}
+            UNION ALL
+            SELECT p.*, up.level + 1 FROM feedbacks p JOIN up ON p.id = up.parent_id
+        )
+        SELECT up.id, up.level FROM up
+        JOIN ideas i ON i.id = up.idea_id
+        WHERE ${visibleIdeas(viewer)}
+        ORDER BY up.level DESC`;
+        if (up.length === 0 || up.at(-1)?.level !== 0) {
+            throw new ApiError("FEEDBACK_NOT_FOUND");
+        }
+        const path: number[] = up.map((row) => row.id);
+
+        const ancestors = await sql`SELECT ${threadColumns()} FROM (
+            SELECT f.*,
+                array_position(${path}::int[], f.id) - 1 AS depth,
+                (${path}::int[])[1:array_position(${path}::int[], f.id)] AS path
+            FROM feedbacks f WHERE f.id = ANY(${path.slice(0, -1)}::int[])
+        ) t ORDER BY t.depth`;
+        const thread = await sql`WITH RECURSIVE t AS (
+            SELECT f.*, ${path.length - 1}::int AS depth, ${path}::int[] AS path
+            FROM feedbacks f WHERE f.id = ${id}
+            UNION ALL
+            SELECT f.*, t.depth + 1, t.path || f.id FROM feedbacks f JOIN t ON f.parent_id = t.id
+        )
+        SELECT ${threadColumns()} FROM t ORDER BY t.path`;
+        const [feedback, ...descendants] = thread;
+        return c.json({
+            ancestors,
+            feedback,
+            descendants: prune(descendants),
+        });
+    },
+);
+
+app.get(
+    "/ideas/:id/feedbacks",
+    describeRoute({
+        method: "get",
+        path: "/ideas/:id/feedbacks",
+        tags: ["feedbacks"],
+        description:
+            "Get the feedbacks of an idea as a flattened thread. Top level feedbacks are sorted and paginated, each followed by its replies in posting order",
+        parameters: [
+            { ...id_param.id, description: "Idea ID" },
+            {
+                name: "sort",
+                in: "query",
+                required: false,
+                description: "Order of the top level feedbacks",
+                schema: resolver(thread_sort),
+            },
+            ...page_params,
+        ],
+        responses: {
+            200: json200(pageSchema(threadFeedbackSchema)),
+            400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+            404: problems("IDEA_NOT_FOUND"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    zValidator("query", pageQuery.extend({ sort: thread_sort })),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const { sort, ...page } = c.req.valid("query");
+        await found(sql`SELECT id FROM ideas i WHERE i.id = ${id} AND ${visibleIdeas(c.get("user_id"))}`, "IDEA_NOT_FOUND");
+        // The page is made of top level feedbacks, tombstones included as
+        // long as they have replies.
+        const roots = sql`SELECT f.*, f.upvotes - f.downvotes AS score FROM feedbacks f
+            WHERE f.idea_id = ${id} AND f.parent_id IS NULL
+            AND (NOT ${masked("f")} OR EXISTS (SELECT 1 FROM feedbacks r WHERE r.parent_id = f.id))`;
+        const result = await paginate(roots, thread_sorts[sort], page);
+
+        const rows = await sql`WITH RECURSIVE t AS (
+            SELECT f.*, 0 AS depth, ARRAY[f.id] AS path
+            FROM feedbacks f WHERE f.id = ANY(${result.items.map((root) => root.id)}::int[])
+            UNION ALL
+            SELECT f.*, t.depth + 1, t.path || f.id FROM feedbacks f JOIN t ON f.parent_id = t.id
+        )
+        SELECT ${threadColumns()} FROM t ORDER BY t.path`;
+        const threads = new Map<number, Row[]>();
+        for (const row of rows) {
+            threads.set(row.path[0], [...(threads.get(row.path[0]) ?? []), row]);
+        }
+        return c.json({
+            ...result,
+            items: prune(result.items.flatMap((root) => threads.get(root.id) ?? [])),
+        });
     },
 );
 
@@ -141,7 +372,10 @@ app.post(
         },
         responses: {
             201: json200(feedbackSchema),
-            400: error404,
+            400: problems("VALIDATION_FAILED", "FEEDBACK_NOT_CREATED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("USER_MISMATCH"),
+            404: problems("IDEA_NOT_FOUND", "PARENT_FEEDBACK_NOT_FOUND"),
             500: error500,
         },
     }),
@@ -149,22 +383,38 @@ app.post(
     async (c) => {
         const {
             idea_id,
-            user_id,
+            user_id: body_user_id,
             content,
             files_url,
             feedback_links,
+            parent_id = null,
             user_tag,
             upvotes,
             downvotes,
         } = c.req.valid("json");
-        const rows =
-            await sql`INSERT INTO feedbacks (idea_id, user_id, content, files_url, feedback_links, user_tag, upvotes, downvotes) 
-        VALUES (${idea_id}, ${user_id}, ${content}, ${files_url}, ${feedback_links}, ${user_tag}, ${upvotes}, ${downvotes}) RETURNING *`;
-        if (!rows[0]) {
-            throw new HTTPException(400, { message: "Feedback not created" });
-        }
-        await sql`INSERT INTO ideas_feedbacks (idea_id, feedback_id) VALUES (${idea_id}, ${rows[0].id})`;
-        return c.json(rows[0]);
+        const user_id = assertSelf(c, body_user_id);
+        // The idea and parent are locked so neither can be deleted before the
+        // feedback and its ideas_feedbacks row are both written. The idea takes
+        // the lock the feedbacks_touch trigger needs to bump its version, so
+        // concurrent feedbacks on it wait for each other instead of deadlocking.
+        const feedback = await sql.begin(async (sql) => {
+            await found(sql`SELECT id FROM ideas i WHERE i.id = ${idea_id} AND ${visibleIdeas(user_id)} FOR NO KEY UPDATE`, "IDEA_NOT_FOUND");
+            if (parent_id !== null) {
+                await found(
+                    sql`SELECT id FROM feedbacks f WHERE f.id = ${parent_id} AND f.idea_id = ${idea_id} AND ${visibleFeedbacks(user_id)} FOR SHARE`,
+                    "PARENT_FEEDBACK_NOT_FOUND",
+                );
+            }
+            const [feedback] =
+                await sql`INSERT INTO feedbacks (idea_id, user_id, content, files_url, feedback_links, parent_id, user_tag, upvotes, downvotes) 
+            VALUES (${idea_id}, ${user_id}, ${content}, ${files_url}, ${feedback_links}, ${parent_id}, ${user_tag}, ${upvotes}, ${downvotes}) RETURNING ${feedbackColumns()}`;
+            if (!feedback) {
+                throw new ApiError("FEEDBACK_NOT_CREATED");
+            }
+            await sql`INSERT INTO ideas_feedbacks (idea_id, feedback_id) VALUES (${idea_id}, ${feedback.id})`;
+            return feedback;
+        });
+        return c.json(feedback, 201);
     },
 );
 
@@ -174,8 +424,9 @@ app.put(
         method: "put",
         path: "/feedbacks/:id",
         tags: ["feedbacks"],
-        description: "Update a feedback by ID",
-        parameters: [id_param],
+        description:
+            "Update a feedback by ID. Changing idea_id moves it to another idea the caller can see, unless it has a parent or replies",
+        parameters: [id_param, if_match_param],
         content: {
             "application/json": {
                 schema: resolver(feedbackSchema),
@@ -183,17 +434,24 @@ app.put(
         },
         responses: {
             200: json200(feedbackSchema),
-            404: error404,
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN", "USER_MISMATCH"),
+            404: problems("FEEDBACK_NOT_FOUND", "IDEA_NOT_FOUND"),
+            409: problems("FEEDBACK_IN_THREAD"),
+            412: problems("RESOURCE_MODIFIED"),
+            428: problems("IF_MATCH_REQUIRED"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    authorize("feedback:update"),
     zValidator("json", feedbackSchema),
     async (c) => {
         const { id } = c.req.valid("param");
         const {
             idea_id,
-            user_id,
+            user_id: body_user_id,
             content,
             files_url,
             feedback_links,
@@ -201,8 +459,28 @@ app.put(
             upvotes,
             downvotes,
         } = c.req.valid("json");
-        const rows = await sql`UPDATE feedbacks 
-        SET idea_id = ${idea_id}, user_id = ${user_id}, content = ${content}, files_url = ${files_url}, feedback_links = ${feedback_links}, user_tag = ${user_tag}, upvotes = ${upvotes}, downvotes = ${downvotes} WHERE id = ${id} RETURNING *`;
+        const user_id = assertSelf(c, body_user_id);
+        const version = expectedVersion(c);
+        const rows = await sql.begin(async (sql) => {
+            const [current] = await sql`SELECT f.idea_id,
+                f.parent_id IS NOT NULL OR EXISTS (SELECT 1 FROM feedbacks r WHERE r.parent_id = f.id) AS threaded
+                FROM feedbacks f WHERE f.id = ${id} FOR UPDATE`;
+            // Threads stay on one idea, so only a lone feedback can move, and
+            // only to an idea the caller could post it on.
+            if (current && current.idea_id !== idea_id) {
+                if (current.threaded) {
+                    throw new ApiError("FEEDBACK_IN_THREAD");
+                }
+                await found(sql`SELECT id FROM ideas i WHERE i.id = ${idea_id} AND ${visibleIdeas(user_id)} FOR NO KEY UPDATE`, "IDEA_NOT_FOUND");
+                await sql`UPDATE ideas_feedbacks SET idea_id = ${idea_id} WHERE feedback_id = ${id}`;
+            }
+            return sql`UPDATE feedbacks 
+            SET idea_id = ${idea_id}, user_id = ${user_id}, content = ${content}, files_url = ${files_url}, feedback_links = ${feedback_links}, user_tag = ${user_tag}, upvotes = ${upvotes}, downvotes = ${downvotes} WHERE id = ${id} AND version = ${version} RETURNING ${feedbackColumns()}`;
+        });
+        if (!rows[0]) {
+            throw modified();
+        }
+        setETag(c, rows[0].version);
         return c.json(rows[0]);
     },
 );
@@ -213,37 +491,125 @@ app.delete(
         method: "delete",
         path: "/feedbacks/:id",
         tags: ["feedbacks"],
-        description: "Delete a feedback by ID",
+        description:
+            "Move a feedback to the trash. While it has replies it stays in the thread as a tombstone",
         parameters: [id_param],
         responses: {
             200: resp200,
-            404: error404,
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("FEEDBACK_NOT_FOUND"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    authorize("feedback:delete"),
     async (c) => {
         const { id } = c.req.valid("param");
-        await sql`DELETE FROM feedbacks WHERE id = ${id}`;
-        await sql`DELETE FROM ideas_feedbacks WHERE feedback_id = ${id}`;
+        await found(sql`UPDATE feedbacks SET deleted_at = now() WHERE id = ${id} RETURNING id`, "FEEDBACK_NOT_FOUND");
         return c.body(null, 200);
     },
 );
 
+app.post(
+    "/feedbacks/:id/restore",
+    describeRoute({
+        method: "post",
+        path: "/feedbacks/:id/restore",
+        tags: ["feedbacks"],
+        description: "Bring a feedback back from the trash",
+        parameters: [id_param],
+        responses: {
+            200: json200(feedbackSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("FEEDBACK_NOT_FOUND"),
+            409: problems("IDEA_IN_TRASH"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    authorize("feedback:restore"),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const rows = await sql`UPDATE feedbacks f SET deleted_at = NULL WHERE f.id = ${id}
+        AND NOT EXISTS (SELECT 1 FROM ideas i WHERE i.id = f.idea_id AND i.deleted_at IS NOT NULL)
+        RETURNING ${feedbackColumns()}`;
+        if (!rows[0]) {
+            throw new ApiError("IDEA_IN_TRASH");
+        }
+        return c.json(rows[0]);
+    },
+);
+
+app.post(
+    "/feedbacks/hide/:id",
+    describeRoute({
+        method: "post",
+        path: "/feedbacks/hide/:id",
+        tags: ["feedbacks"],
+        description: "Hide a feedback from all listings (moderators and admins)",
+        parameters: [id_param],
+        responses: {
+            200: json200(feedbackSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("FEEDBACK_NOT_FOUND"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    authorize("feedback:hide"),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        return c.json(await found(sql`UPDATE feedbacks SET hidden = TRUE WHERE id = ${id} RETURNING ${feedbackColumns()}`, "FEEDBACK_NOT_FOUND"));
+    },
+);
+
+app.delete(
+    "/feedbacks/hide/:id",
+    describeRoute({
+        method: "delete",
+        path: "/feedbacks/hide/:id",
+        tags: ["feedbacks"],
+        description: "Make a hidden feedback visible again (moderators and admins)",
+        parameters: [id_param],
+        responses: {
+            200: json200(feedbackSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("FEEDBACK_NOT_FOUND"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    authorize("feedback:hide"),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        return c.json(await found(sql`UPDATE feedbacks SET hidden = FALSE WHERE id = ${id} RETURNING ${feedbackColumns()}`, "FEEDBACK_NOT_FOUND"));
+    },
+);
+
 app.get("/feedbacks/user/:user_id", describeRoute({
     method: "get",
     path: "/feedbacks/user/:user_id",
     tags: ["feedbacks"],
     description: "Get feedbacks by user ID",
     parameter: id_param,
+    parameters: page_params,
     responses: {
-        200: json200(z.array(feedbackSchema)),
+        200: json200(pageSchema(feedbackSchema)),
+        400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
         500: error500,
     },
-}), zValidator("param", z.object({ user_id: z.string() })), async (c) => {
+}), zValidator("param", z.object({ user_id: z.string() })), zValidator("query", pageQuery), async (c) => {
     const { user_id } = c.req.valid("param");
-    const rows = await sql`SELECT * FROM feedbacks WHERE user_id = ${user_id} ORDER BY created_at DESC`;
-    return c.json(rows);
+    const feedbacks = sql`SELECT ${feedbackColumns("f")} FROM feedbacks f WHERE f.user_id = ${user_id} AND ${visibleFeedbacks(c.get("user_id"))}`;
+    return c.json(await paginate(feedbacks, [{ column: "created_at", direction: "desc" }], c.req.valid("query")));
 })
 
 app.post("/feedbacks/up/:id",
@@ -255,14 +621,18 @@ app.post("/feedbacks/up/:id",
         parameters: [id_param],
         responses: {
             200: resp200,
-            404: error404,
+            400: problems("VALIDATION_FAILED"),
+            404: problems("FEEDBACK_NOT_FOUND"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
     async (c) => {
         const { id } = c.req.valid("param");
-        await sql`UPDATE feedbacks SET upvotes = upvotes + 1 WHERE id = ${id}`;
+        await found(
+            sql`UPDATE feedbacks f SET upvotes = upvotes + 1 WHERE f.id = ${id} AND ${visibleFeedbacks(c.get("user_id"))} RETURNING f.id`,
+            "FEEDBACK_NOT_FOUND",
+        );
         return c.body(null, 200);
     },
 )
@@ -276,14 +646,18 @@ app.delete("/feedbacks/up/:id",
         parameters: [id_param],
         responses: {
             200: resp200,
-            404: error404,
+            400: problems("VALIDATION_FAILED"),
+            404: problems("FEEDBACK_NOT_FOUND"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
     async (c) => {
         const { id } = c.req.valid("param");
-        await sql`UPDATE feedbacks SET upvotes = upvotes - 1 WHERE id = ${id}`;
+        await found(
+            sql`UPDATE feedbacks f SET upvotes = upvotes - 1 WHERE f.id = ${id} AND ${visibleFeedbacks(c.get("user_id"))} RETURNING f.id`,
+            "FEEDBACK_NOT_FOUND",
+        );
         return c.body(null, 200);
     },
 )
@@ -297,14 +671,18 @@ app.post("/feedbacks/down/:id",
         parameters: [id_param],
         responses: {
             200: resp200,
-            404: error404,
+            400: problems("VALIDATION_FAILED"),
+            404: problems("FEEDBACK_NOT_FOUND"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
     async (c) => {
         const { id } = c.req.valid("param");
-        await sql`UPDATE feedbacks SET downvotes = downvotes + 1 WHERE id = ${id}`;
+        await found(
+            sql`UPDATE feedbacks f SET downvotes = downvotes + 1 WHERE f.id = ${id} AND ${visibleFeedbacks(c.get("user_id"))} RETURNING f.id`,
+            "FEEDBACK_NOT_FOUND",
+        );
         return c.body(null, 200);
     },
 )
@@ -318,14 +696,18 @@ app.delete("/feedbacks/down/:id",
         parameters: [id_param],
         responses: {
             200: resp200,
-            404: error404,
+            400: problems("VALIDATION_FAILED"),
+            404: problems("FEEDBACK_NOT_FOUND"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
     async (c) => {
         const { id } = c.req.valid("param");
-        await sql`UPDATE feedbacks SET downvotes = downvotes - 1 WHERE id = ${id}`;
+        await found(
+            sql`UPDATE feedbacks f SET downvotes = downvotes - 1 WHERE f.id = ${id} AND ${visibleFeedbacks(c.get("user_id"))} RETURNING f.id`,
+            "FEEDBACK_NOT_FOUND",
+        );
         return c.body(null, 200);
     },
 )
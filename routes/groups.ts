@@ -1,12 +1,27 @@
-import { Hono } from "hono";
+import { randomBytes } from "node:crypto";
+import { type Context, Hono } from "hono";
 import { env } from "hono/adapter";
 import "zod-openapi/extend";
 import { z } from "zod";
 import { describeRoute } from "hono-openapi";
-import { resolver, validator as zValidator } from "hono-openapi/zod";
-import { HTTPException } from "hono/http-exception";
-import { sql } from "../db.ts";
-import { error404, error500, json200, resp200 } from "./error.ts";
+import { resolver } from "hono-openapi/zod";
+import { zValidator } from "./validator.ts";
+import { ApiError } from "../errors.ts";
+import type { PendingQuery, Row, TransactionSql } from "postgres";
+import { found, sql } from "../db.ts";
+import { assertSelf, currentUser } from "../auth.ts";
+import { authorize, can } from "../policy.ts";
+import { pageQuery, pageSchema, page_params, paginate } from "./pagination.ts";
+import { sortParameter, sortQuery } from "./sort.ts";
+import { error500, json200, problems, resp200, resp304 } from "./error.ts";
+import {
+    expectedVersion,
+    if_match_param,
+    if_none_match_param,
+    modified,
+    notModified,
+    setETag,
+} from "./etag.ts";
 
 const app = new Hono();
 
@@ -40,10 +55,7 @@ const id_tag_param = {
     },
 };
 
-const sort_by = z.string().openapi({
-    title: "Sort by",
-    example: "likes",
-}).optional();
+const group_sorts = ["id", "title", "likes"] as const;
 
 const groupsSchema = z.object({
     id: z.number().optional().openapi({
@@ -60,6 +72,8 @@ const groupsSchema = z.object({
     }),
     user_id: z.array(z.string()).openapi({
         title: "User IDs",
+        description:
+            "Members of the group, empty for callers outside it. The creator becomes its owner and the users listed on creation are invited",
         example: ["1", "2", "3"],
     }),
     likes: z.number().default(0).openapi({
@@ -77,25 +91,302 @@ const groupsSchema = z.object({
     },
 });
 
+const member_role = z.enum(["owner", "admin", "member"]).openapi({
+    title: "Member role",
+    example: "member",
+});
+
+const memberSchema = z.object({
+    user_id: z.string().openapi({
+        title: "User ID",
+        example: "1",
+    }),
+    name: z.string().nullable().openapi({
+        title: "Name",
+        example: "John Doe",
+    }),
+    role: member_role,
+    joined_at: z.string().openapi({
+        title: "Joined at",
+        example: "2025-01-01T00:00:00.000Z",
+    }),
+});
+
+const userGroupSchema = groupsSchema.extend({
+    role: member_role,
+    joined_at: z.string().openapi({
+        title: "Joined at",
+        example: "2025-01-01T00:00:00.000Z",
+    }),
+});
+
+// Who is in a group is only shown to its members, and to the users the policy
+// lets manage every group.
+async function viewerOf(c: Context) {
+    const user_id: string | null = c.get("user_id") ?? null;
+    return { user_id, all: user_id !== null && (await can(user_id, "group:manage")) };
+}
+
+type Viewer = Awaited<ReturnType<typeof viewerOf>>;
+
+const seesMembers = (viewer: Viewer, group_id: PendingQuery<Row[]>) => sql`(${viewer.all} OR EXISTS (
+    SELECT 1 FROM user_groups_members v WHERE v.group_id = ${group_id} AND v.user_id = ${viewer.user_id}
+))`;
+
+// Groups (aliased g) with their member ids, owner first, in the user_id array
+// clients read before membership had its own table. The array is empty for
+// groups the viewer can't see the members of.
+const groupRows = (viewer: Viewer) => sql`SELECT g.id, g.title, g.description, g.likes, g.version,
+    COALESCE((
+        SELECT ARRAY_AGG(m.user_id ORDER BY m.role <> 'owner', m.joined_at, m.user_id)
+        FROM user_groups_members m WHERE m.group_id = g.id AND ${seesMembers(viewer, sql`g.id`)}
+    ), ARRAY[]::TEXT[]) AS user_id
+    FROM user_groups g`;
+
+async function assertUsersExist(user_ids: string[]) {
+    const rows = await sql`SELECT id FROM users WHERE id = ANY(${user_ids}::text[])`;
+    const missing = user_ids.filter((user_id) => !rows.some((row) => row.id === user_id));
+    if (missing.length > 0) {
+        throw new ApiError("USER_NOT_FOUND", `User not found: ${missing.join(", ")}`);
+    }
+}
+
+// Group owners and admins manage membership, as do users the policy allows.
+async function assertManager(c: Context, group_id: number) {
+    const caller = currentUser(c);
+    const { role } = await found(sql`SELECT m.role FROM user_groups g
+    LEFT JOIN user_groups_members m ON m.group_id = g.id AND m.user_id = ${caller}
+    WHERE g.id = ${group_id}`, "GROUP_NOT_FOUND");
+    if (role !== "owner" && role !== "admin" && !(await can(caller, "group:manage"))) {
+        throw new ApiError("FORBIDDEN", "Only group owners and admins can manage members");
+    }
+    return caller;
+}
+
+const DAY = 24 * 60 * 60;
+
+// Single-use secret for accepting an invitation.
+const newCode = () => randomBytes(18).toString("base64url");
+
+const invitation_status = z.enum(["pending", "accepted", "declined", "revoked", "expired"]).openapi({
+    title: "Invitation status",
+    example: "pending",
+});
+
+const request_status = z.enum(["pending", "approved", "rejected", "cancelled", "expired"]).openapi({
+    title: "Join request status",
+    example: "pending",
+});
+
+const invitationSchema = z.object({
+    id: z.number().openapi({
+        title: "Invitation ID",
+        example: 1,
+    }),
+    group_id: z.number().openapi({
+        title: "Group ID",
+        example: 1,
+    }),
+    group_title: z.string().openapi({
+        title: "Group title",
+        example: "Group title",
+    }),
+    user_id: z.string().nullable().openapi({
+        title: "User ID",
+        description: "Invited user, null for link invitations anyone with the code can use",
+        example: "1",
+    }),
+    code: z.string().openapi({
+        title: "Code",
+        description: "Secret used to accept or decline the invitation, valid once",
+        example: "q3Jd0cQ2u0Vb7m1oH5mB1a2c",
+    }),
+    invited_by: z.string().nullable().openapi({
+        title: "Invited by",
+        example: "2",
+    }),
+    status: invitation_status,
+    created_at: z.string().openapi({
+        title: "Created at",
+        example: "2025-01-01T00:00:00.000Z",
+    }),
+    expires_at: z.string().openapi({
+        title: "Expires at",
+        example: "2025-01-08T00:00:00.000Z",
+    }),
+    responded_at: z.string().nullable().openapi({
+        title: "Responded at",
+        example: null,
+    }),
+    responded_by: z.string().nullable().openapi({
+        title: "Responded by",
+        description: "User who accepted or declined, for link invitations the one who used the code",
+        example: null,
+    }),
+});
+
+const invitationBody = z.object({
+    user_id: z.string().nullable().default(null).openapi({
+        title: "User ID",
+        description: "User to invite, leave out to create a link invitation",
+        example: "1",
+    }),
+    expires_in: z.number().int().min(60).max(30 * DAY).default(7 * DAY).openapi({
+        title: "Expires in",
+        description: "Seconds until the invitation expires, 7 days by default",
+        example: 7 * DAY,
+    }),
+});
+
+const joinRequestSchema = z.object({
+    id: z.number().openapi({
+        title: "Join request ID",
+        example: 1,
+    }),
+    group_id: z.number().openapi({
+        title: "Group ID",
+        example: 1,
+    }),
+    group_title: z.string().openapi({
+        title: "Group title",
+        example: "Group title",
+    }),
+    user_id: z.string().openapi({
+        title: "User ID",
+        example: "1",
+    }),
+    message: z.string().nullable().openapi({
+        title: "Message",
+        example: "I would like to join",
+    }),
+    status: request_status,
+    created_at: z.string().openapi({
+        title: "Created at",
+        example: "2025-01-01T00:00:00.000Z",
+    }),
+    expires_at: z.string().openapi({
+        title: "Expires at",
+        example: "2025-01-31T00:00:00.000Z",
+    }),
+    decided_at: z.string().nullable().openapi({
+        title: "Decided at",
+        example: null,
+    }),
+    decided_by: z.string().nullable().openapi({
+        title: "Decided by",
+        example: null,
+    }),
+});
+
+const joinRequestBody = z.object({
+    message: z.string().nullable().default(null).openapi({
+        title: "Message",
+        description: "Note for the group admins",
+        example: "I would like to join",
+    }),
+});
+
+// Join requests nobody decides on lapse after this long.
+const REQUEST_TTL = 30 * DAY;
+
+// Invitations and join requests report pending rows past their expiry as
+// "expired". Rows are only marked expired once a new one replaces them.
+const invitationRows = () => sql`SELECT inv.id, inv.group_id, g.title AS group_title, inv.user_id, inv.code,
+    inv.invited_by,
+    CASE WHEN inv.status = 'pending' AND inv.expires_at <= now() THEN 'expired' ELSE inv.status END AS status,
+    inv.created_at, inv.expires_at, inv.responded_at, inv.responded_by
+    FROM group_invitations inv JOIN user_groups g ON g.id = inv.group_id`;
+
+const requestRows = () => sql`SELECT r.id, r.group_id, g.title AS group_title, r.user_id, r.message,
+    CASE WHEN r.status = 'pending' AND r.expires_at <= now() THEN 'expired' ELSE r.status END AS status,
+    r.created_at, r.expires_at, r.decided_at, r.decided_by
+    FROM group_join_requests r JOIN user_groups g ON g.id = r.group_id`;
+
+const code_param = {
+    name: "code",
+    in: "path",
+    required: true,
+    description: "Invitation code",
+    schema: resolver(z.string()),
+};
+
+const request_id_param = {
+    name: "request_id",
+    in: "path",
+    required: true,
+    description: "Join request ID",
+    schema: resolver(z.number()),
+    example: 1,
+};
+
+const user_id_param = {
+    name: "id",
+    in: "path",
+    required: true,
+    description: "User ID",
+    schema: resolver(z.string()),
+    example: "1",
+};
+
+// Locks the invitation with `code`, 404 when there is none.
+async function lockInvitation(sql: TransactionSql, code: string) {
+    return await found(sql`SELECT inv.*, inv.expires_at <= now() AS expired
+    FROM group_invitations inv WHERE inv.code = ${code} FOR UPDATE`, "INVITATION_NOT_FOUND");
+}
+
+// Locks the join request with `id`, 404 when there is none.
+async function lockRequest(sql: TransactionSql, id: number) {
+    return await found(sql`SELECT r.*, r.expires_at <= now() AS expired
+    FROM group_join_requests r WHERE r.id = ${id} FOR UPDATE`, "JOIN_REQUEST_NOT_FOUND");
+}
+
+// Invitations and join requests can only be answered once, before they expire.
+function assertPending(row: Row, name: "Invitation" | "Join request") {
+    const kind = name === "Invitation" ? "INVITATION" : "JOIN_REQUEST";
+    if (row.status === "expired" || (row.status === "pending" && row.expired)) {
+        throw new ApiError(`${kind}_EXPIRED`);
+    }
+    if (row.status !== "pending") {
+        throw new ApiError(`${kind}_NOT_PENDING`, `${name} is already ${row.status}`);
+    }
+}
+
+// Approves or rejects a pending join request on behalf of a group manager.
+async function decideRequest(c: Context, request_id: number, status: "approved" | "rejected") {
+    const { group_id } = await found(sql`SELECT group_id FROM group_join_requests WHERE id = ${request_id}`, "JOIN_REQUEST_NOT_FOUND");
+    const caller = await assertManager(c, group_id);
+    await sql.begin(async (sql) => {
+        const request = await lockRequest(sql, request_id);
+        assertPending(request, "Join request");
+        await sql`UPDATE group_join_requests
+        SET status = ${status}, decided_at = now(), decided_by = ${caller} WHERE id = ${request_id}`;
+        if (status === "approved") {
+            await sql`INSERT INTO user_groups_members (group_id, user_id) VALUES (${request.group_id}, ${request.user_id})
+            ON CONFLICT DO NOTHING`;
+        }
+    });
+    return await found(sql`${requestRows()} WHERE r.id = ${request_id}`, "JOIN_REQUEST_NOT_FOUND");
+}
+
 app.get(
     "/groups",
     describeRoute({
         method: "get",
         path: "/groups",
         tags: ["groups"],
-        description: "Get all groups",
-        parameters: [sort_by],
+        description: "Get all groups. Only members see who else is in a group",
+        parameters: [sortParameter(group_sorts, "id"), ...page_params],
         responses: {
-            200: json200(groupsSchema),
+            200: json200(pageSchema(groupsSchema)),
+            400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
             500: error500,
         },
     }),
-    zValidator("query", z.object({ sort_by })),
+    zValidator("query", pageQuery.extend({ sort: sortQuery(group_sorts, "id") })),
     async (c) => {
-        const { sort_by } = c.req.valid("query");
-        const sort_by_sql = sort_by ? `ORDER BY ${sort_by}` : "";
-        const rows = await sql`SELECT * FROM user_groups ${sort_by_sql}`;
-        return c.json(rows);
+        const { sort, ...page } = c.req.valid("query");
+        const groups = groupRows(await viewerOf(c));
+        return c.json(await paginate(groups, sort, page));
     },
 );
 
@@ -113,17 +404,34 @@ app.post(
         },
         responses: {
             201: json200(groupsSchema),
-            400: error404,
+            400: problems("VALIDATION_FAILED", "GROUP_NOT_CREATED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            404: problems("USER_NOT_FOUND"),
             500: error500,
         },
     }),
     zValidator("json", groupsSchema),
     async (c) => {
         const { title, description, user_id, likes } = c.req.valid("json");
-        const rows =
-            await sql`INSERT INTO user_groups (title, description, user_id, likes) 
-            VALUES (${title}, ${description}, ${user_id}, ${likes}) RETURNING *`;
-        return c.json(rows[0]);
+        const owner = currentUser(c);
+        await assertUsersExist(user_id);
+        const id = await sql.begin(async (sql) => {
+            const [group] = await sql`INSERT INTO user_groups (title, description, likes) 
+            VALUES (${title}, ${description}, ${likes}) RETURNING id`;
+            if (!group) {
+                throw new ApiError("GROUP_NOT_CREATED");
+            }
+            await sql`INSERT INTO user_groups_members (group_id, user_id, role) VALUES (${group.id}, ${owner}, 'owner')`;
+            for (const invitee of new Set(user_id)) {
+                if (invitee !== owner) {
+                    await sql`INSERT INTO group_invitations (group_id, user_id, code, invited_by, expires_at)
+                    VALUES (${group.id}, ${invitee}, ${newCode()}, ${owner}, now() + make_interval(secs => ${7 * DAY}))`;
+                }
+            }
+            return group.id;
+        });
+        const rows = await sql`${groupRows(await viewerOf(c))} WHERE g.id = ${id}`;
+        return c.json(rows[0], 201);
     },
 );
 
@@ -133,19 +441,25 @@ app.get(
         method: "get",
         path: "/groups/:id",
         tags: ["groups"],
-        description: "Get a group by ID",
+        description: "Get a group by ID. Only members see who else is in it",
         parameter: id_param,
+        parameters: [if_none_match_param],
         responses: {
             200: json200(groupsSchema),
-            404: error404,
+            304: resp304,
+            400: problems("VALIDATION_FAILED"),
+            404: problems("GROUP_NOT_FOUND"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
     async (c) => {
         const { id } = c.req.valid("param");
-        const rows = await sql`SELECT * FROM user_groups WHERE id = ${id}`;
-        return c.json(rows[0]);
+        const group = await found(sql`${groupRows(await viewerOf(c))} WHERE g.id = ${id}`, "GROUP_NOT_FOUND");
+        if (notModified(c, group.version)) {
+            return c.body(null, 304);
+        }
+        return c.json(group);
     },
 );
 
@@ -155,8 +469,10 @@ app.put(
         method: "put",
         path: "/groups/:id",
         tags: ["groups"],
-        description: "Update a group by ID",
+        description:
+            "Update a group by ID. Members missing from user_id are removed, except the owner. New members have to be invited",
         parameter: id_param,
+        parameters: [if_match_param],
         content: {
             "application/json": {
                 schema: resolver(groupsSchema),
@@ -164,18 +480,39 @@ app.put(
         },
         responses: {
             200: json200(groupsSchema),
-            404: error404,
+            400: problems("VALIDATION_FAILED", "NOT_A_MEMBER"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND"),
+            412: problems("RESOURCE_MODIFIED"),
+            428: problems("IF_MATCH_REQUIRED"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    authorize("group:update"),
     zValidator("json", groupsSchema),
     async (c) => {
         const { id } = c.req.valid("param");
         const { title, description, user_id, likes } = c.req.valid("json");
-        const rows = await sql`UPDATE user_groups 
-        SET title = ${title}, description = ${description}, user_id = ${user_id}, likes = ${likes} WHERE id = ${id} RETURNING *`;
-        return c.json(rows[0]);
+        const version = expectedVersion(c);
+        const members = await sql`SELECT user_id FROM user_groups_members WHERE group_id = ${id}`;
+        const added = user_id.filter((user_id) => !members.some((member) => member.user_id === user_id));
+        if (added.length > 0) {
+            throw new ApiError("NOT_A_MEMBER", `Not a member, invite them instead: ${added.join(", ")}`);
+        }
+        await sql.begin(async (sql) => {
+            const updated = await sql`UPDATE user_groups 
+            SET title = ${title}, description = ${description}, likes = ${likes} WHERE id = ${id} AND version = ${version} RETURNING id`;
+            if (updated.length === 0) {
+                throw modified();
+            }
+            await sql`DELETE FROM user_groups_members
+            WHERE group_id = ${id} AND role <> 'owner' AND user_id <> ALL(${user_id}::text[])`;
+        });
+        const group = await found(sql`${groupRows(await viewerOf(c))} WHERE g.id = ${id}`, "GROUP_NOT_FOUND");
+        setETag(c, group.version);
+        return c.json(group);
     },
 );
 
@@ -189,11 +526,15 @@ app.delete(
         parameter: id_param,
         responses: {
             200: resp200,
-            404: error404,
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    authorize("group:delete"),
     async (c) => {
         const { id } = c.req.valid("param");
         await sql`DELETE FROM user_groups WHERE id = ${id}`;
@@ -201,48 +542,639 @@ app.delete(
     },
 );
 
-app.post(
+app.delete(
     "/groups/:id/:user_id",
     describeRoute({
-        method: "post",
+        method: "delete",
         path: "/groups/:id/:user_id",
         tags: ["groups"],
-        description: "Add a user to a group by ID",
+        description:
+            "Leave a group, or remove a member as a group owner or admin. The owner can't leave or be removed until they transfer ownership with PUT /groups/:id/owner",
         parameter: id_tag_param,
         responses: {
             200: resp200,
-            404: error404,
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND", "MEMBER_NOT_FOUND"),
+            409: problems("OWNER_CANNOT_LEAVE"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number(), user_id: z.string() })),
+    zValidator("param", z.object({ id: z.coerce.number(), user_id: z.string() })),
     async (c) => {
         const { id, user_id } = c.req.valid("param");
-        await sql`UPDATE user_groups SET user_id = array_append(user_id, ${user_id}) WHERE id = ${id}`;
+        if (currentUser(c) !== user_id) {
+            await assertManager(c, id);
+        }
+        const member = await found(sql`SELECT role FROM user_groups_members WHERE group_id = ${id} AND user_id = ${user_id}`, "MEMBER_NOT_FOUND");
+        if (member.role === "owner") {
+            throw new ApiError("OWNER_CANNOT_LEAVE");
+        }
+        // The role is checked again in case ownership moved to them meanwhile.
+        await found(sql`DELETE FROM user_groups_members
+        WHERE group_id = ${id} AND user_id = ${user_id} AND role <> 'owner' RETURNING user_id`, "MEMBER_NOT_FOUND");
         return c.body(null, 200);
     },
 );
 
-app.delete(
-    "/groups/:id/:user_id",
+const ownerBody = z.object({
+    user_id: z.string().openapi({
+        title: "User ID",
+        description: "Member who becomes the owner",
+        example: "2",
+    }),
+});
+
+app.put(
+    "/groups/:id/owner",
     describeRoute({
-        method: "delete",
-        path: "/groups/:id/:user_id",
+        method: "put",
+        path: "/groups/:id/owner",
         tags: ["groups"],
-        description: "Remove a user from a group by ID",
-        parameter: id_tag_param,
+        description:
+            "Make another member the owner of a group (its owner or a site admin only). The previous owner stays on as a group admin",
+        parameter: id_param,
+        content: {
+            "application/json": {
+                schema: resolver(ownerBody),
+            },
+        },
         responses: {
             200: resp200,
-            404: error404,
+            400: problems("VALIDATION_FAILED", "NOT_A_MEMBER"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND"),
             500: error500,
         },
     }),
-    zValidator("param", z.object({ id: z.number(), user_id: z.string() })),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    authorize("group:transfer"),
+    zValidator("json", ownerBody),
     async (c) => {
-        const { id, user_id } = c.req.valid("param");
-        await sql`UPDATE user_groups SET user_id = array_remove(user_id, ${user_id}) WHERE id = ${id}`;
+        const { id } = c.req.valid("param");
+        const { user_id } = c.req.valid("json");
+        await sql.begin(async (sql) => {
+            const members = await sql`SELECT user_id, role FROM user_groups_members
+            WHERE group_id = ${id} AND (user_id = ${user_id} OR role = 'owner') FOR UPDATE`;
+            const member = members.find((member) => member.user_id === user_id);
+            if (!member) {
+                throw new ApiError("NOT_A_MEMBER");
+            }
+            if (member.role !== "owner") {
+                await sql`UPDATE user_groups_members
+                SET role = CASE WHEN user_id = ${user_id} THEN 'owner' ELSE 'admin' END
+                WHERE group_id = ${id} AND (user_id = ${user_id} OR role = 'owner')`;
+            }
+        });
         return c.body(null, 200);
     },
 );
 
+app.get(
+    "/groups/:id/members",
+    describeRoute({
+        method: "get",
+        path: "/groups/:id/members",
+        tags: ["groups"],
+        description: "Get the members of a group, in the order they joined. Only members can list them",
+        parameters: [id_param.id, ...page_params],
+        responses: {
+            200: json200(pageSchema(memberSchema)),
+            400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    zValidator("query", pageQuery),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const { sees } = await found(
+            sql`SELECT ${seesMembers(await viewerOf(c), sql`g.id`)} AS sees FROM user_groups g WHERE g.id = ${id}`,
+            "GROUP_NOT_FOUND",
+        );
+        if (!sees) {
+            throw new ApiError("FORBIDDEN", "Only members can see who is in a group");
+        }
+        const members = sql`SELECT m.user_id, u.name, m.role, m.joined_at
+        FROM user_groups_members m JOIN users u ON u.id = m.user_id
+        WHERE m.group_id = ${id}`;
+        return c.json(await paginate(members, [{ column: "joined_at", direction: "asc" }], c.req.valid("query"), "user_id"));
+    },
+);
+
+app.get(
+    "/users/:id/groups",
+    describeRoute({
+        method: "get",
+        path: "/users/:id/groups",
+        tags: ["groups"],
+        description:
+            "Get the groups a user belongs to, most recently joined first. Other users only see the groups they share with them",
+        parameters: [
+            {
+                name: "id",
+                in: "path",
+                required: true,
+                description: "User ID",
+                schema: resolver(z.string()),
+                example: "1",
+            },
+            ...page_params,
+        ],
+        responses: {
+            200: json200(pageSchema(userGroupSchema)),
+            400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+            404: problems("USER_NOT_FOUND"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.string() })),
+    zValidator("query", pageQuery),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const viewer = await viewerOf(c);
+        await assertUsersExist([id]);
+        const groups = sql`SELECT groups.*, m.role, m.joined_at
+        FROM (${groupRows(viewer)}) groups
+        JOIN user_groups_members m ON m.group_id = groups.id
+        WHERE m.user_id = ${id} AND ${seesMembers(viewer, sql`groups.id`)}`;
+        return c.json(await paginate(groups, [{ column: "joined_at", direction: "desc" }], c.req.valid("query")));
+    },
+);
+
+app.post(
+    "/groups/:id/invitations",
+    describeRoute({
+        method: "post",
+        path: "/groups/:id/invitations",
+        tags: ["groups"],
+        description:
+            "Invite a user to a group, or create a link invitation when no user is given. Group owners and admins only",
+        parameters: [id_param.id],
+        content: {
+            "application/json": {
+                schema: resolver(invitationBody),
+            },
+        },
+        responses: {
+            201: json200(invitationSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("USER_NOT_FOUND", "GROUP_NOT_FOUND"),
+            409: problems("ALREADY_MEMBER", "INVITATION_PENDING"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    zValidator("json", invitationBody),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const { user_id, expires_in } = c.req.valid("json");
+        const caller = await assertManager(c, id);
+        if (user_id !== null) {
+            await assertUsersExist([user_id]);
+            const members = await sql`SELECT 1 FROM user_groups_members WHERE group_id = ${id} AND user_id = ${user_id}`;
+            if (members.length > 0) {
+                throw new ApiError("ALREADY_MEMBER", "User is already a member");
+            }
+            // A user has one pending invitation per group at most, so a lapsed
+            // one is closed first. A live one makes the insert fail with
+            // INVITATION_PENDING.
+            await sql`UPDATE group_invitations SET status = 'expired'
+            WHERE group_id = ${id} AND user_id = ${user_id} AND status = 'pending' AND expires_at <= now()`;
+        }
+        const code = newCode();
+        await sql`INSERT INTO group_invitations (group_id, user_id, code, invited_by, expires_at)
+        VALUES (${id}, ${user_id}, ${code}, ${caller}, now() + make_interval(secs => ${expires_in}))`;
+        const rows = await sql`${invitationRows()} WHERE inv.code = ${code}`;
+        return c.json(rows[0], 201);
+    },
+);
+
+app.get(
+    "/groups/:id/invitations",
+    describeRoute({
+        method: "get",
+        path: "/groups/:id/invitations",
+        tags: ["groups"],
+        description: "Get the invitations of a group, newest first. Group owners and admins only",
+        parameters: [
+            id_param.id,
+            {
+                name: "status",
+                in: "query",
+                required: false,
+                description: "Only invitations with this status, pending by default",
+                schema: resolver(invitation_status),
+            },
+            ...page_params,
+        ],
+        responses: {
+            200: json200(pageSchema(invitationSchema)),
+            400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    zValidator("query", pageQuery.extend({ status: invitation_status.default("pending") })),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const { status, ...page } = c.req.valid("query");
+        await assertManager(c, id);
+        const invitations = sql`SELECT * FROM (${invitationRows()}) invitations
+        WHERE invitations.group_id = ${id} AND invitations.status = ${status}`;
+        return c.json(await paginate(invitations, [{ column: "created_at", direction: "desc" }], page));
+    },
+);
+
+app.get(
+    "/groups/invitations/:code",
+    describeRoute({
+        method: "get",
+        path: "/groups/invitations/:code",
+        tags: ["groups"],
+        description: "Get an invitation by its code",
+        parameters: [code_param],
+        responses: {
+            200: json200(invitationSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND", "INVITATION_NOT_FOUND"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ code: z.string() })),
+    async (c) => {
+        const { code } = c.req.valid("param");
+        const caller = currentUser(c);
+        const invitation = await found(sql`${invitationRows()} WHERE inv.code = ${code}`, "INVITATION_NOT_FOUND");
+        if (invitation.user_id !== null && invitation.user_id !== caller) {
+            await assertManager(c, invitation.group_id);
+        }
+        return c.json(invitation);
+    },
+);
+
+app.post(
+    "/groups/invitations/:code/accept",
+    describeRoute({
+        method: "post",
+        path: "/groups/invitations/:code/accept",
+        tags: ["groups"],
+        description: "Accept an invitation and join its group",
+        parameters: [code_param],
+        responses: {
+            200: json200(invitationSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            404: problems("INVITATION_NOT_FOUND"),
+            409: problems("INVITATION_NOT_PENDING"),
+            410: problems("INVITATION_EXPIRED"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ code: z.string() })),
+    async (c) => {
+        const { code } = c.req.valid("param");
+        const caller = currentUser(c);
+        await sql.begin(async (sql) => {
+            const invitation = await lockInvitation(sql, code);
+            if (invitation.user_id !== null && invitation.user_id !== caller) {
+                throw new ApiError("INVITATION_NOT_FOUND");
+            }
+            assertPending(invitation, "Invitation");
+            await sql`UPDATE group_invitations
+            SET status = 'accepted', responded_at = now(), responded_by = ${caller} WHERE id = ${invitation.id}`;
+            await sql`INSERT INTO user_groups_members (group_id, user_id) VALUES (${invitation.group_id}, ${caller})
+            ON CONFLICT DO NOTHING`;
+        });
+        return c.json(await found(sql`${invitationRows()} WHERE inv.code = ${code}`, "INVITATION_NOT_FOUND"));
+    },
+);
+
+app.post(
+    "/groups/invitations/:code/decline",
+    describeRoute({
+        method: "post",
+        path: "/groups/invitations/:code/decline",
+        tags: ["groups"],
+        description: "Decline an invitation addressed to the caller",
+        parameters: [code_param],
+        responses: {
+            200: json200(invitationSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            404: problems("INVITATION_NOT_FOUND"),
+            409: problems("INVITATION_NOT_PENDING"),
+            410: problems("INVITATION_EXPIRED"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ code: z.string() })),
+    async (c) => {
+        const { code } = c.req.valid("param");
+        const caller = currentUser(c);
+        await sql.begin(async (sql) => {
+            const invitation = await lockInvitation(sql, code);
+            // Link invitations are not addressed to anyone, so nobody can decline them.
+            if (invitation.user_id !== caller) {
+                throw new ApiError("INVITATION_NOT_FOUND");
+            }
+            assertPending(invitation, "Invitation");
+            await sql`UPDATE group_invitations
+            SET status = 'declined', responded_at = now(), responded_by = ${caller} WHERE id = ${invitation.id}`;
+        });
+        return c.json(await found(sql`${invitationRows()} WHERE inv.code = ${code}`, "INVITATION_NOT_FOUND"));
+    },
+);
+
+app.post(
+    "/groups/invitations/:code/revoke",
+    describeRoute({
+        method: "post",
+        path: "/groups/invitations/:code/revoke",
+        tags: ["groups"],
+        description: "Revoke a pending invitation. Group owners and admins only",
+        parameters: [code_param],
+        responses: {
+            200: json200(invitationSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND", "INVITATION_NOT_FOUND"),
+            409: problems("INVITATION_NOT_PENDING"),
+            410: problems("INVITATION_EXPIRED"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ code: z.string() })),
+    async (c) => {
+        const { code } = c.req.valid("param");
+        const { group_id } = await found(sql`SELECT group_id FROM group_invitations WHERE code = ${code}`, "INVITATION_NOT_FOUND");
+        const caller = await assertManager(c, group_id);
+        await sql.begin(async (sql) => {
+            const invitation = await lockInvitation(sql, code);
+            assertPending(invitation, "Invitation");
+            await sql`UPDATE group_invitations
+            SET status = 'revoked', responded_at = now(), responded_by = ${caller} WHERE id = ${invitation.id}`;
+        });
+        return c.json(await found(sql`${invitationRows()} WHERE inv.code = ${code}`, "INVITATION_NOT_FOUND"));
+    },
+);
+
+app.post(
+    "/groups/:id/requests",
+    describeRoute({
+        method: "post",
+        path: "/groups/:id/requests",
+        tags: ["groups"],
+        description: "Ask to join a group. A group owner or admin approves or rejects the request",
+        parameters: [id_param.id],
+        content: {
+            "application/json": {
+                schema: resolver(joinRequestBody),
+            },
+        },
+        responses: {
+            201: json200(joinRequestSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            404: problems("GROUP_NOT_FOUND"),
+            409: problems("ALREADY_MEMBER", "JOIN_REQUEST_PENDING"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    zValidator("json", joinRequestBody),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const { message } = c.req.valid("json");
+        const caller = currentUser(c);
+        await found(sql`SELECT id FROM user_groups WHERE id = ${id}`, "GROUP_NOT_FOUND");
+        const members = await sql`SELECT 1 FROM user_groups_members WHERE group_id = ${id} AND user_id = ${caller}`;
+        if (members.length > 0) {
+            throw new ApiError("ALREADY_MEMBER");
+        }
+        // Like invitations, a user has one pending request per group at most.
+        await sql`UPDATE group_join_requests SET status = 'expired'
+        WHERE group_id = ${id} AND user_id = ${caller} AND status = 'pending' AND expires_at <= now()`;
+        const [request] = await sql`INSERT INTO group_join_requests (group_id, user_id, message, expires_at)
+        VALUES (${id}, ${caller}, ${message}, now() + make_interval(secs => ${REQUEST_TTL})) RETURNING id`;
+        const rows = await sql`${requestRows()} WHERE r.id = ${request?.id}`;
+        return c.json(rows[0], 201);
+    },
+);
+
+app.get(
+    "/groups/:id/requests",
+    describeRoute({
+        method: "get",
+        path: "/groups/:id/requests",
+        tags: ["groups"],
+        description: "Get the join requests of a group, oldest first. Group owners and admins only",
+        parameters: [
+            id_param.id,
+            {
+                name: "status",
+                in: "query",
+                required: false,
+                description: "Only join requests with this status, pending by default",
+                schema: resolver(request_status),
+            },
+            ...page_params,
+        ],
+        responses: {
+            200: json200(pageSchema(joinRequestSchema)),
+            400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.coerce.number() })),
+    zValidator("query", pageQuery.extend({ status: request_status.default("pending") })),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const { status, ...page } = c.req.valid("query");
+        await assertManager(c, id);
+        const requests = sql`SELECT * FROM (${requestRows()}) requests
+        WHERE requests.group_id = ${id} AND requests.status = ${status}`;
+        return c.json(await paginate(requests, [{ column: "created_at", direction: "asc" }], page));
+    },
+);
+
+app.post(
+    "/groups/requests/:request_id/approve",
+    describeRoute({
+        method: "post",
+        path: "/groups/requests/:request_id/approve",
+        tags: ["groups"],
+        description:
+            "Approve a join request, adding the user to the group. Group owners and admins only",
+        parameters: [request_id_param],
+        responses: {
+            200: json200(joinRequestSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND", "JOIN_REQUEST_NOT_FOUND"),
+            409: problems("JOIN_REQUEST_NOT_PENDING"),
+            410: problems("JOIN_REQUEST_EXPIRED"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ request_id: z.coerce.number() })),
+    async (c) => {
+        const { request_id } = c.req.valid("param");
+        return c.json(await decideRequest(c, request_id, "approved"));
+    },
+);
+
+app.post(
+    "/groups/requests/:request_id/reject",
+    describeRoute({
+        method: "post",
+        path: "/groups/requests/:request_id/reject",
+        tags: ["groups"],
+        description: "Reject a join request. Group owners and admins only",
+        parameters: [request_id_param],
+        responses: {
+            200: json200(joinRequestSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("FORBIDDEN"),
+            404: problems("GROUP_NOT_FOUND", "JOIN_REQUEST_NOT_FOUND"),
+            409: problems("JOIN_REQUEST_NOT_PENDING"),
+            410: problems("JOIN_REQUEST_EXPIRED"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ request_id: z.coerce.number() })),
+    async (c) => {
+        const { request_id } = c.req.valid("param");
+        return c.json(await decideRequest(c, request_id, "rejected"));
+    },
+);
+
+app.post(
+    "/groups/requests/:request_id/cancel",
+    describeRoute({
+        method: "post",
+        path: "/groups/requests/:request_id/cancel",
+        tags: ["groups"],
+        description: "Withdraw the caller's own join request",
+        parameters: [request_id_param],
+        responses: {
+            200: json200(joinRequestSchema),
+            400: problems("VALIDATION_FAILED"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            404: problems("JOIN_REQUEST_NOT_FOUND"),
+            409: problems("JOIN_REQUEST_NOT_PENDING"),
+            410: problems("JOIN_REQUEST_EXPIRED"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ request_id: z.coerce.number() })),
+    async (c) => {
+        const { request_id } = c.req.valid("param");
+        const caller = currentUser(c);
+        await sql.begin(async (sql) => {
+            const request = await lockRequest(sql, request_id);
+            if (request.user_id !== caller) {
+                throw new ApiError("JOIN_REQUEST_NOT_FOUND");
+            }
+            assertPending(request, "Join request");
+            await sql`UPDATE group_join_requests
+            SET status = 'cancelled', decided_at = now(), decided_by = ${caller} WHERE id = ${request_id}`;
+        });
+        return c.json(await found(sql`${requestRows()} WHERE r.id = ${request_id}`, "JOIN_REQUEST_NOT_FOUND"));
+    },
+);
+
+app.get(
+    "/users/:id/invitations",
+    describeRoute({
+        method: "get",
+        path: "/users/:id/invitations",
+        tags: ["groups"],
+        description: "Get the invitations addressed to the caller, newest first",
+        parameters: [
+            user_id_param,
+            {
+                name: "status",
+                in: "query",
+                required: false,
+                description: "Only invitations with this status, pending by default",
+                schema: resolver(invitation_status),
+            },
+            ...page_params,
+        ],
+        responses: {
+            200: json200(pageSchema(invitationSchema)),
+            400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("USER_MISMATCH"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.string() })),
+    zValidator("query", pageQuery.extend({ status: invitation_status.default("pending") })),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const { status, ...page } = c.req.valid("query");
+        assertSelf(c, id);
+        const invitations = sql`SELECT * FROM (${invitationRows()}) invitations
+        WHERE invitations.user_id = ${id} AND invitations.status = ${status}`;
+        return c.json(await paginate(invitations, [{ column: "created_at", direction: "desc" }], page));
+    },
+);
+
+app.get(
+    "/users/:id/requests",
+    describeRoute({
+        method: "get",
+        path: "/users/:id/requests",
+        tags: ["groups"],
+        description: "Get the caller's join requests, newest first",
+        parameters: [
+            user_id_param,
+            {
+                name: "status",
+                in: "query",
+                required: false,
+                description: "Only join requests with this status, pending by default",
+                schema: resolver(request_status),
+            },
+            ...page_params,
+        ],
+        responses: {
+            200: json200(pageSchema(joinRequestSchema)),
+            400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+            401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+            403: problems("USER_MISMATCH"),
+            500: error500,
+        },
+    }),
+    zValidator("param", z.object({ id: z.string() })),
+    zValidator("query", pageQuery.extend({ status: request_status.default("pending") })),
+    async (c) => {
+        const { id } = c.req.valid("param");
+        const { status, ...page } = c.req.valid("query");
+        assertSelf(c, id);
+        const requests = sql`SELECT * FROM (${requestRows()}) requests
+        WHERE requests.user_id = ${id} AND requests.status = ${status}`;
+        return c.json(await paginate(requests, [{ column: "created_at", direction: "desc" }], page));
+    },
+);
+
 export default app;
@@ -1,12 +1,28 @@
-import { Hono } from "hono";
-import { env } from "hono/adapter";
+import { type Context, Hono } from "hono";
 import "zod-openapi/extend";
 import { z } from "zod";
 import { describeRoute } from "hono-openapi";
-import { resolver, validator as zValidator } from "hono-openapi/zod";
-import { HTTPException } from "hono/http-exception";
-import { s3, sql } from "../db.ts";
-import { error404, error500, json200, resp200 } from "./error.ts";
+import { resolver } from "hono-openapi/zod";
+import { zValidator } from "./validator.ts";
+import { ApiError } from "../errors.ts";
+import type { Sql } from "postgres";
+import { found, ideaColumns, s3, sql } from "../db.ts";
+import { assertSelf, currentUser } from "../auth.ts";
+import { authorize } from "../policy.ts";
+import { visibleFeedbacks, visibleIdeas } from "../access.ts";
+import { diffLines } from "../diff.ts";
+import { pageQuery, pageSchema, page_params, paginate } from "./pagination.ts";
+import { sortParameter, sortQuery } from "./sort.ts";
+import { resolveTags, tagName, tagNames } from "./tags.ts";
+import { error500, json200, problems, resp200, resp304 } from "./error.ts";
+import {
+	expectedVersion,
+	if_match_param,
+	if_none_match_param,
+	modified,
+	notModified,
+	setETag,
+} from "./etag.ts";
 
 const app = new Hono();
 
@@ -35,7 +51,7 @@ const id_tag_param = {
 		in: "path",
 		required: true,
 		description: "Tag name",
-		schema: resolver(z.string()),
+		schema: resolver(tagName),
 		example: "tag1",
 	},
 };
@@ -54,38 +70,237 @@ const file_content = {
 	},
 };
 
-const sort_by = z.string().openapi({
-	title: "Sort by",
-	example: "upvotes",
-	examples: ["upvotes", "downvotes", "title"],
-}).optional();
+// Idea files are stored privately and served by GET /ideas/file/:id/:name,
+// which only redirects callers who can see the idea.
+const idea_file_url = (c: Context, id: number, name: string) =>
+	new URL(`/ideas/file/${id}/${encodeURIComponent(name)}`, c.req.url).href;
+
+// A file name is a single key segment under the idea's id.
+const file_name = z
+	.string()
+	.min(1)
+	.refine((name) => !name.includes("/") && !name.includes(".."), {
+		message: "File names can't contain '/' or '..'",
+	});
+
+// The `file` part of a multipart request, once its name is a valid key segment.
+async function uploadedFile(c: Context): Promise<File> {
+	const { file } = await c.req.parseBody();
+	if (!(file instanceof File)) {
+		throw new ApiError("VALIDATION_FAILED", "The request has no file part");
+	}
+	const name = file_name.safeParse(file.name);
+	if (!name.success) {
+		throw new ApiError("VALIDATION_FAILED", name.error.issues[0]?.message);
+	}
+	return file;
+}
 
-const filter = z.string().openapi({
+// score is upvotes - downvotes, hot decays the score with the idea's age and
+// controversial favours ideas with many, evenly split votes.
+const idea_sorts = [
+	"created_at",
+	"title",
+	"upvotes",
+	"downvotes",
+	"score",
+	"hot",
+	"controversial",
+	"feedback_count",
+] as const;
+
+const sort = sortQuery(idea_sorts, "-created_at");
+
+const filter = tagName.openapi({
 	title: "Filter by tags",
+	description: "Only return ideas with this tag or alias",
 	example: "tag1",
 	examples: ["tag1", "tag2", "tag3"],
 }).optional();
 
+const tag_list = (title: string, description: string) =>
+	z
+		.string()
+		.optional()
+		.openapi({ title, description, example: "tag1,tag2" })
+		.transform((value) =>
+			(value ?? "")
+				.split(",")
+				.map((tag) => tag.trim())
+				.filter((tag) => tag !== ""),
+		)
+		.pipe(tagNames);
+
+const tags_all = tag_list("All tags", "Comma separated tags an idea must all have");
+const tags_any = tag_list("Any tag", "Comma separated tags an idea must have at least one of");
+const tags_none = tag_list("No tags", "Comma separated tags an idea must not have");
+
+const descendants = z
+	.enum(["true", "false"])
+	.optional()
+	.transform((value) => value === "true")
+	.openapi({
+		title: "Descendants",
+		description: "Also match ideas with tags filed under the given tags",
+		example: "true",
+	});
+
+// Ideas (aliased i) tagged with at least one of `names`, or with a tag below
+// one of them when `descendants` is set.
+const hasTag = (names: string[], descendants = false) =>
+	descendants
+		? sql`EXISTS (
+	SELECT 1 FROM ideas_tags it
+	WHERE it.idea_id = i.id AND it.tag_id IN (
+		WITH RECURSIVE subtree AS (
+			SELECT id FROM tags WHERE name = ANY(${names}::text[])
+			UNION
+			SELECT t.id FROM tags t JOIN subtree s ON t.parent_id = s.id
+		)
+		SELECT id FROM subtree
+	)
+)`
+		: sql`EXISTS (
+	SELECT 1 FROM ideas_tags it JOIN tags t ON t.id = it.tag_id
+	WHERE it.idea_id = i.id AND t.name = ANY(${names}::text[])
+)`;
+
+// Number of feedbacks `viewer` can read on each idea (aliased i) and when the
+// latest of them was posted.
+const activity = (viewer: string | undefined) => sql`LEFT JOIN LATERAL (
+	SELECT COUNT(*)::int AS feedback_count, MAX(f.created_at) AS last_feedback_at
+	FROM feedbacks f
+	WHERE f.idea_id = i.id AND ${visibleFeedbacks(viewer)}
+) activity ON TRUE`;
+
+// One idea with its tags and activity, 404 when `viewer` cannot see it.
+async function findIdea(id: number, viewer: string | undefined) {
+	return await found(
+		sql`SELECT 
+		i.id,
+		i.title,
+		i.content,
+		i.user_id,
+		COALESCE(
+			ARRAY_AGG(t.name),
+			ARRAY[]::VARCHAR[]
+		) AS tags,
+		i.files_url,
+		i.access,
+		i.upvotes,
+		i.downvotes,
+		activity.feedback_count,
+		activity.last_feedback_at,
+		i.revision,
+		i.updated_at,
+		i.version
+		FROM ideas i
+		${activity(viewer)}
+		LEFT JOIN ideas_tags it ON i.id = it.idea_id
+		LEFT JOIN tags t ON it.tag_id = t.id
+		WHERE i.id = ${id} AND ${visibleIdeas(viewer)}
+		GROUP BY i.id, i.title, i.content, i.user_id, i.files_url, i.access, i.upvotes, i.downvotes,
+			activity.feedback_count, activity.last_feedback_at;`,
+		"IDEA_NOT_FOUND",
+	);
+}
+
+// Replaces the tags of an idea, creating the ones that don't exist yet, and
+// returns their names once aliases are resolved. `tags` are expected to be
+// normalized, see tagNames.
+async function setTags(sql: Sql, id: number, tags: string[]) {
+	const names = await resolveTags(tags, sql);
+	await sql`DELETE FROM ideas_tags WHERE idea_id = ${id}`;
+	if (names.length > 0) {
+		await sql`INSERT INTO tags ${sql(names.map((name) => ({ name })))} ON CONFLICT (name) DO NOTHING`;
+		await sql`INSERT INTO ideas_tags (idea_id, tag_id)
+		SELECT ${id}, t.id FROM tags t WHERE t.name = ANY(${names}::text[])`;
+	}
+	return names;
+}
+
+/**
+ * Saves the current title, content, access and tags of an idea as its next
+ * revision, bumping `revision` and `updated_at`. Nothing is saved when they
+ * match the latest revision. The first call saves the idea as created.
+ * Callers lock the idea before changing it, so that concurrent edits save
+ * their revisions one after the other instead of taking the same number.
+ */
+async function recordRevision(sql: Sql, id: number, user_id: string) {
+	const [current] = await sql`SELECT i.title, i.content, i.access, i.revision,
+		COALESCE((
+			SELECT ARRAY_AGG(t.name ORDER BY t.name)
+			FROM ideas_tags it JOIN tags t ON t.id = it.tag_id
+			WHERE it.idea_id = i.id
+		), '{}') AS tags
+		FROM ideas i WHERE i.id = ${id}`;
+	if (!current) {
+		return;
+	}
+	const [latest] =
+		await sql`SELECT title, content, access, tags FROM idea_revisions WHERE idea_id = ${id} ORDER BY revision DESC LIMIT 1`;
+	if (
+		latest &&
+		latest.title === current.title &&
+		latest.content === current.content &&
+		latest.access === current.access &&
+		latest.tags.join("\n") === current.tags.join("\n")
+	) {
+		return;
+	}
+	const revision = latest ? current.revision + 1 : current.revision;
+	if (latest) {
+		await sql`UPDATE ideas SET revision = ${revision}, updated_at = now() WHERE id = ${id}`;
+	}
+	await sql`INSERT INTO idea_revisions (idea_id, revision, title, content, access, tags, user_id)
+	VALUES (${id}, ${revision}, ${current.title}, ${current.content}, ${current.access}, ${current.tags}::text[], ${user_id})`;
+}
+
 const access = z.string().openapi({
 	title: "Idea Access",
+	description:
+		"Only return ideas with this access value. Ideas the caller cannot see are never returned.",
 	example: "public",
 	examples: ["public", "private:user_id", "group:group_id"],
 }).optional();
 
 const query_params = [
+	sortParameter(idea_sorts, "-created_at"),
+	{
+		name: "filter",
+		in: "query",
+		required: false,
+		description: "Filter by tags",
+		schema: resolver(filter),
+	},
 	{
-		name: "sort_by",
+		name: "tags_all",
 		in: "query",
 		required: false,
-		description: "Sort by",
-		schema: resolver(sort_by),
+		description: "Only ideas with all of these comma separated tags or aliases",
+		schema: resolver(z.string()),
 	},
 	{
-		name: "filter",
+		name: "tags_any",
 		in: "query",
 		required: false,
-		description: "Filter by tags",
-		schema: resolver(filter),
+		description: "Only ideas with at least one of these comma separated tags or aliases",
+		schema: resolver(z.string()),
+	},
+	{
+		name: "tags_none",
+		in: "query",
+		required: false,
+		description: "Only ideas with none of these comma separated tags or aliases",
+		schema: resolver(z.string()),
+	},
+	{
+		name: "descendants",
+		in: "query",
+		required: false,
+		description:
+			"Let the tag filters also match tags filed under the given tags, so a category matches ideas tagged with any of its subtopics",
+		schema: resolver(z.enum(["true", "false"])),
 	},
 	{
 		name: "access",
@@ -147,8 +362,9 @@ const ideasSchemaWithTags = z.object({
 		title: "Content",
 		example: "Idea Content",
 	}),
-	user_id: z.string().openapi({
+	user_id: z.string().optional().openapi({
 		title: "User ID",
+		description: "Author of the idea, defaults to the authenticated user",
 		example: "1",
 	}),
 	files_url: z.array(z.string().url()).openapi({
@@ -170,10 +386,138 @@ const ideasSchemaWithTags = z.object({
 		title: "Downvotes",
 		example: 5,
 	}),
+	tags: tagNames,
+});
+
+const ideaActivitySchema = ideasSchemaWithTags.extend({
+	feedback_count: z.number().openapi({
+		title: "Feedback count",
+		example: 3,
+	}),
+	last_feedback_at: z.string().nullable().openapi({
+		title: "Last feedback at",
+		description: "When the latest feedback was posted, null without feedbacks",
+		example: "2025-01-01T00:00:00.000Z",
+	}),
+	revision: z.number().openapi({
+		title: "Revision",
+		description: "Number of the latest revision, 1 until the idea is edited",
+		example: 2,
+	}),
+	updated_at: z.string().openapi({
+		title: "Updated at",
+		example: "2025-01-02T00:00:00.000Z",
+	}),
+});
+
+const ideaPatchSchema = ideasSchemaWithTags
+	.pick({ title: true, content: true, access: true, tags: true })
+	.partial()
+	.refine((changes) => Object.keys(changes).length > 0, {
+		message: "Nothing to update",
+	});
+
+const revisionSchema = z.object({
+	idea_id: z.number().openapi({
+		title: "Idea ID",
+		example: 1,
+	}),
+	revision: z.number().openapi({
+		title: "Revision",
+		example: 2,
+	}),
+	title: z.string().openapi({
+		title: "Title",
+		example: "Idea Title",
+	}),
+	content: z.string().openapi({
+		title: "Content",
+		example: "Idea Content",
+	}),
+	access: z.string().nullable().openapi({
+		title: "Access",
+		example: "public",
+	}),
 	tags: z.array(z.string()).openapi({
 		title: "Tags",
 		example: ["tag1", "tag2"],
 	}),
+	user_id: z.string().nullable().openapi({
+		title: "User ID",
+		description: "Who saved the revision",
+		example: "1",
+	}),
+	created_at: z.string().openapi({
+		title: "Created at",
+		example: "2025-01-02T00:00:00.000Z",
+	}),
+});
+
+const change = (schema: z.ZodTypeAny, title: string) =>
+	z
+		.object({ from: schema, to: schema })
+		.nullable()
+		.openapi({ title, description: "Null when unchanged" });
+
+const revisionDiffSchema = z.object({
+	idea_id: z.number().openapi({
+		title: "Idea ID",
+		example: 1,
+	}),
+	from_revision: z.number().nullable().openapi({
+		title: "From revision",
+		description: "Previous revision, null when diffing the first one",
+		example: 1,
+	}),
+	to_revision: z.number().openapi({
+		title: "To revision",
+		example: 2,
+	}),
+	title: change(z.string(), "Title change"),
+	access: change(z.string().nullable(), "Access change"),
+	tags: z.object({
+		added: z.array(z.string()),
+		removed: z.array(z.string()),
+	}).openapi({
+		title: "Tag changes",
+		example: { added: ["tag3"], removed: ["tag1"] },
+	}),
+	content: z.array(
+		z.object({
+			op: z.enum(["equal", "insert", "delete"]),
+			line: z.string(),
+		}),
+	).openapi({
+		title: "Content diff",
+		description: "Lines of the content, each kept, inserted or deleted",
+		example: [
+			{ op: "equal", line: "First line" },
+			{ op: "delete", line: "Old second line" },
+			{ op: "insert", line: "New second line" },
+		],
+	}),
+});
+
+const ideaListSchema = ideaActivitySchema.extend({
+	score: z.number().openapi({
+		title: "Score",
+		description: "upvotes - downvotes",
+		example: 5,
+	}),
+	hot: z.number().openapi({
+		title: "Hot",
+		description: "Score decayed by the age of the idea",
+		example: 0.12,
+	}),
+	controversial: z.number().openapi({
+		title: "Controversial",
+		description: "High for ideas with many, evenly split votes",
+		example: 7.4,
+	}),
+	created_at: z.string().openapi({
+		title: "Created at",
+		example: "2025-01-01T00:00:00.000Z",
+	}),
 });
 
 app.get(
@@ -183,32 +527,52 @@ app.get(
 		path: "/ideas",
 		tags: ["ideas"],
 		description: "Get all ideas",
-		parameters: query_params,
+		parameters: [...query_params, ...page_params],
 		responses: {
-			200: json200(z.array(ideasSchemaWithTags)),
+			200: json200(pageSchema(ideaListSchema)),
+			400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
 			500: error500,
 		},
 	}),
 	zValidator(
 		"query",
-		z.object({
-			sort_by,
+		pageQuery.extend({
+			sort,
 			filter,
+			tags_all,
+			tags_any,
+			tags_none,
+			descendants,
 			access,
 		}),
 	),
 	async (c) => {
-		const { sort_by, filter, access } = c.req.valid("query");
-		const sort_by_sql = sort_by ? sql`ORDER BY i.${sort_by}` : sql``;
-		const filter_sql = filter ? sql`WHERE t.name = ${filter}` : sql``;
-		const access_sql =
-			(access?.startsWith("private:") || access?.startsWith("group:"))
-				? filter
-					? sql`AND (i.access = ${access} OR i.access = 'public')`
-					: sql`WHERE (i.access = ${access} OR i.access = 'public')`
-				: sql``;
-
-		const rows = await sql`SELECT 
+		const {
+			sort,
+			filter,
+			tags_all,
+			tags_any,
+			tags_none,
+			descendants,
+			access,
+			...page
+		} = c.req.valid("query");
+		// Tag filters are EXISTS subqueries rather than conditions on the
+		// joined tags, so each idea still comes back with all of its tags.
+		const all = await resolveTags(filter ? [...tags_all, filter] : tags_all);
+		const any = await resolveTags(tags_any);
+		const none = await resolveTags(tags_none);
+		const tags_sql = sql`${all.reduce(
+			(conditions, tag) => sql`${conditions} AND ${hasTag([tag], descendants)}`,
+			sql``,
+		)}
+			${any.length > 0 ? sql`AND ${hasTag(any, descendants)}` : sql``}
+			${none.length > 0 ? sql`AND NOT ${hasTag(none, descendants)}` : sql``}`;
+		const access_sql = access ? sql`AND i.access = ${access}` : sql``;
+
+		// hot is computed against the cursor's time rather than now(), so it
+		// doesn't drift between pages. Ideas created since count as brand new.
+		const ideas = (as_of: Date) => sql`SELECT 
 			i.id,
 			i.title,
 			i.content,
@@ -220,17 +584,31 @@ app.get(
 			i.files_url,
 			i.access,
 			i.upvotes,
-			i.downvotes
+			i.downvotes,
+			i.created_at,
+			i.revision,
+			i.updated_at,
+			activity.feedback_count,
+			activity.last_feedback_at,
+			i.upvotes - i.downvotes AS score,
+			((i.upvotes - i.downvotes)
+				/ POWER(GREATEST(EXTRACT(EPOCH FROM ${as_of}::timestamptz - i.created_at), 0) / 3600 + 2, 1.5))::float8 AS hot,
+			CASE WHEN i.upvotes = 0 OR i.downvotes = 0 THEN 0
+				ELSE POWER(i.upvotes + i.downvotes,
+					LEAST(i.upvotes, i.downvotes)::float8 / GREATEST(i.upvotes, i.downvotes))
+			END AS controversial
 			FROM ideas i
+			${activity(c.get("user_id"))}
 			LEFT JOIN ideas_tags it ON i.id = it.idea_id
 			LEFT JOIN tags t ON it.tag_id = t.id
-			${filter_sql}
+			WHERE ${visibleIdeas(c.get("user_id"))}
+			${tags_sql}
 			${access_sql}
-			GROUP BY i.id, i.title, i.content, i.user_id, i.files_url, i.access, i.upvotes, i.downvotes
-			${sort_by_sql};
+			GROUP BY i.id, i.title, i.content, i.user_id, i.files_url, i.access, i.upvotes, i.downvotes, i.created_at,
+				activity.feedback_count, activity.last_feedback_at
 		`;
 
-		return c.json(rows);
+		return c.json(await paginate(ideas, sort, page));
 	},
 );
 
@@ -248,35 +626,43 @@ app.post(
 		},
 		responses: {
 			201: json200(ideasSchemaWithTags),
-			400: error404,
+			400: problems("VALIDATION_FAILED", "IDEA_NOT_CREATED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("USER_MISMATCH"),
 			500: error500,
 		},
 	}),
 	zValidator("json", ideasSchemaWithTags),
 	async (c) => {
-		const { title, content, user_id, files_url, access, tags } = c.req
-			.valid("json");
+		const { title, content, user_id: body_user_id, files_url, access, tags } =
+			c.req.valid("json");
+		const user_id = assertSelf(c, body_user_id);
 
-		const tags_obj = tags.map((tag) => ({ name: tag }));
-		await sql`INSERT INTO tags ${
-			sql(tags_obj)
-		} ON CONFLICT (name) DO NOTHING`;
-		const rows1 = await sql`SELECT id FROM tags WHERE name IN ${sql(tags)}`;
-
-		const rows2 =
-			await sql`INSERT INTO ideas (title, content, user_id, files_url, access) 
-		VALUES (${title}, ${content}, ${user_id}, ${files_url}, ${access}) RETURNING *`;
-
-		if (!rows2[0]?.id) {
-			throw new HTTPException(400, { message: "Failed to create idea" });
-		}
-		const tagIds = rows1.map((row) => ({
-			idea_id: rows2[0]?.id,
-			tag_id: row?.id as number,
-		}));
-		await sql`INSERT INTO ideas_tags ${sql(tagIds)}`;
-		rows2[0].tags = tags;
-		return c.json(rows2[0]);
+		const idea = await sql.begin(async (sql) => {
+			const [idea] =
+				await sql`INSERT INTO ideas (title, content, user_id, files_url, access) 
+			VALUES (${title}, ${content}, ${user_id}, ${files_url}, ${access}) RETURNING ${ideaColumns()}`;
+			if (!idea?.id) {
+				throw new ApiError("IDEA_NOT_CREATED");
+			}
+			idea.tags = await setTags(sql, idea.id, tags);
+			await recordRevision(sql, idea.id, user_id);
+			return idea;
+		});
+		return c.json(
+			{
+				id: idea.id,
+				title: idea.title,
+				content: idea.content,
+				user_id: idea.user_id,
+				files_url: idea.files_url,
+				access: idea.access,
+				upvotes: idea.upvotes,
+				downvotes: idea.downvotes,
+				tags: idea.tags,
+			},
+			201,
+		);
 	},
 );
 
@@ -288,33 +674,170 @@ app.get(
 		tags: ["ideas"],
 		description: "Get an idea by ID",
 		parameter: id_param,
+		parameters: [if_none_match_param],
 		responses: {
-			200: json200(z.array(ideasSchemaWithTags)),
+			200: json200(ideaActivitySchema),
+			304: resp304,
+			400: problems("VALIDATION_FAILED"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number() })),
+	zValidator("param", z.object({ id: z.coerce.number() })),
 	async (c) => {
 		const { id } = c.req.valid("param");
-		const rows = await sql`SELECT 
-		i.id,
-		i.title,
-		i.content,
-		i.user_id,
-		COALESCE(
-			ARRAY_AGG(t.name),
-			ARRAY[]::VARCHAR[]
-		) AS tags,
-		i.files_url,
-		i.access,
-		i.upvotes,
-		i.downvotes
-		FROM ideas i
-		LEFT JOIN ideas_tags it ON i.id = it.idea_id
-		LEFT JOIN tags t ON it.tag_id = t.id
-		WHERE i.id = ${id}
-		GROUP BY i.id, i.title, i.content, i.user_id, i.files_url, i.access, i.upvotes, i.downvotes;`;
-		return c.json(rows[0]);
+		const idea = await findIdea(id, c.get("user_id"));
+		if (notModified(c, idea.version)) {
+			return c.body(null, 304);
+		}
+		return c.json(idea);
+	},
+);
+
+app.patch(
+	"/ideas/:id",
+	describeRoute({
+		method: "patch",
+		path: "/ideas/:id",
+		tags: ["ideas"],
+		description:
+			"Update the title, content, access or tags of an idea. Each change is saved as a new revision",
+		parameter: id_param,
+		parameters: [if_match_param],
+		content: {
+			"application/json": {
+				schema: resolver(ideaPatchSchema),
+			},
+		},
+		responses: {
+			200: json200(ideaActivitySchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			404: problems("IDEA_NOT_FOUND"),
+			412: problems("RESOURCE_MODIFIED"),
+			428: problems("IF_MATCH_REQUIRED"),
+			500: error500,
+		},
+	}),
+	zValidator("param", z.object({ id: z.coerce.number() })),
+	authorize("idea:update"),
+	zValidator("json", ideaPatchSchema),
+	async (c) => {
+		const { id } = c.req.valid("param");
+		const { title, content, access, tags } = c.req.valid("json");
+		const editor = currentUser(c);
+		const version = expectedVersion(c);
+		await sql.begin(async (sql) => {
+			const idea = await found(
+				sql`SELECT * FROM ideas WHERE id = ${id} FOR UPDATE`,
+				"IDEA_NOT_FOUND",
+			);
+			if (idea.version !== version) {
+				throw modified();
+			}
+			await sql`UPDATE ideas SET
+				title = ${title ?? idea.title},
+				content = ${content ?? idea.content},
+				access = ${access ?? idea.access}
+				WHERE id = ${id}`;
+			if (tags) {
+				await setTags(sql, id, tags);
+			}
+			await recordRevision(sql, id, editor);
+		});
+		const idea = await findIdea(id, c.get("user_id"));
+		setETag(c, idea.version);
+		return c.json(idea);
+	},
+);
+
+app.get(
+	"/ideas/:id/revisions",
+	describeRoute({
+		method: "get",
+		path: "/ideas/:id/revisions",
+		tags: ["ideas"],
+		description: "Get the revisions of an idea, newest first",
+		parameters: [id_param.id, ...page_params],
+		responses: {
+			200: json200(pageSchema(revisionSchema)),
+			400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+			404: problems("IDEA_NOT_FOUND"),
+			500: error500,
+		},
+	}),
+	zValidator("param", z.object({ id: z.coerce.number() })),
+	zValidator("query", pageQuery),
+	async (c) => {
+		const { id } = c.req.valid("param");
+		await findIdea(id, c.get("user_id"));
+		const revisions = sql`SELECT * FROM idea_revisions WHERE idea_id = ${id}`;
+		return c.json(
+			await paginate(
+				revisions,
+				[{ column: "revision", direction: "desc" }],
+				c.req.valid("query"),
+				"revision",
+			),
+		);
+	},
+);
+
+app.get(
+	"/ideas/:id/revisions/:rev/diff",
+	describeRoute({
+		method: "get",
+		path: "/ideas/:id/revisions/:rev/diff",
+		tags: ["ideas"],
+		description:
+			"Get what changed in a revision compared to the one before it, with a line-level diff of the content",
+		parameters: [
+			id_param.id,
+			{
+				name: "rev",
+				in: "path",
+				required: true,
+				description: "Revision number",
+				schema: resolver(z.number()),
+				example: 2,
+			},
+		],
+		responses: {
+			200: json200(revisionDiffSchema),
+			400: problems("VALIDATION_FAILED"),
+			404: problems("IDEA_NOT_FOUND", "REVISION_NOT_FOUND"),
+			500: error500,
+		},
+	}),
+	zValidator("param", z.object({ id: z.coerce.number(), rev: z.coerce.number() })),
+	async (c) => {
+		const { id, rev } = c.req.valid("param");
+		await findIdea(id, c.get("user_id"));
+		const rows = await sql`SELECT * FROM idea_revisions
+			WHERE idea_id = ${id} AND revision IN (${rev - 1}, ${rev})`;
+		const to = rows.find((row) => row.revision === rev);
+		if (!to) {
+			throw new ApiError("REVISION_NOT_FOUND");
+		}
+		const from = rows.find((row) => row.revision === rev - 1);
+		const tags_from: string[] = from?.tags ?? [];
+		return c.json({
+			idea_id: id,
+			from_revision: from?.revision ?? null,
+			to_revision: to.revision,
+			title:
+				from?.title === to.title ? null : { from: from?.title ?? "", to: to.title },
+			access:
+				from && from.access === to.access
+					? null
+					: { from: from?.access ?? null, to: to.access },
+			tags: {
+				added: to.tags.filter((tag: string) => !tags_from.includes(tag)),
+				removed: tags_from.filter((tag) => !to.tags.includes(tag)),
+			},
+			content: diffLines(from?.content ?? "", to.content ?? ""),
+		});
 	},
 );
 
@@ -324,42 +847,137 @@ app.delete(
 		method: "delete",
 		path: "/ideas/:id",
 		tags: ["ideas"],
-		description: "Delete an idea",
+		description:
+			"Move an idea to the trash. Its feedbacks are hidden with it until it is restored",
+		parameter: id_param,
+		responses: {
+			200: json200(ideasSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			404: problems("IDEA_NOT_FOUND"),
+			500: error500,
+		},
+	}),
+	zValidator("param", z.object({ id: z.coerce.number() })),
+	authorize("idea:delete"),
+	async (c) => {
+		const { id } = c.req.valid("param");
+		return c.json(
+			await found(
+				sql`UPDATE ideas SET deleted_at = now() WHERE id = ${id} RETURNING ${ideaColumns()}`,
+				"IDEA_NOT_FOUND",
+			),
+		);
+	},
+);
+
+app.post(
+	"/ideas/:id/restore",
+	describeRoute({
+		method: "post",
+		path: "/ideas/:id/restore",
+		tags: ["ideas"],
+		description: "Bring an idea back from the trash, with its feedbacks",
 		parameter: id_param,
 		responses: {
-			200: json200(ideasSchemaWithTags),
-			404: error404,
+			200: json200(ideasSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number() })),
+	zValidator("param", z.object({ id: z.coerce.number() })),
+	authorize("idea:restore"),
 	async (c) => {
 		const { id } = c.req.valid("param");
-		const rows = await sql`DELETE FROM ideas WHERE id = ${id} RETURNING *`;
-		return c.json(rows[0]);
+		return c.json(
+			await found(
+				sql`UPDATE ideas SET deleted_at = NULL WHERE id = ${id} RETURNING ${ideaColumns()}`,
+				"IDEA_NOT_FOUND",
+			),
+		);
 	},
 );
 
+const ideaVoteSchema = ideasSchema.extend({
+	user_vote: z.number().openapi({
+		title: "User vote",
+		description: "1 for an upvote, -1 for a downvote, 0 for no vote",
+		example: 1,
+	}),
+});
+
+// Records `vote` for the user in idea_votes and moves the idea's
+// upvotes/downvotes by the change. The counters are adjusted rather than
+// recounted from idea_votes, which has no rows for the votes cast before it.
+// "toggle" switches to `vote`, or clears it when it is already the current
+// vote; "clear" only removes a matching vote.
+async function castVote(
+	id: number,
+	user_id: string,
+	vote: 1 | -1,
+	action: "toggle" | "clear",
+) {
+	return await sql.begin(async (sql) => {
+		await found(
+			sql`SELECT id FROM ideas i WHERE i.id = ${id} AND ${visibleIdeas(user_id)} FOR UPDATE`,
+			"IDEA_NOT_FOUND",
+		);
+
+		const votes =
+			await sql`SELECT vote FROM idea_votes WHERE idea_id = ${id} AND user_id = ${user_id}`;
+		const current = (votes[0]?.vote as number | undefined) ?? 0;
+		let next = current;
+		if (action === "toggle") {
+			next = current === vote ? 0 : vote;
+		} else if (current === vote) {
+			next = 0;
+		}
+
+		if (next === 0) {
+			await sql`DELETE FROM idea_votes WHERE idea_id = ${id} AND user_id = ${user_id}`;
+		} else if (next !== current) {
+			await sql`INSERT INTO idea_votes (user_id, idea_id, vote)
+			VALUES (${user_id}, ${id}, ${next})
+			ON CONFLICT (user_id, idea_id) DO UPDATE SET vote = EXCLUDED.vote`;
+		}
+
+		const idea = await found(
+			sql`UPDATE ideas SET
+			upvotes = COALESCE(upvotes, 0) + ${Number(next === 1) - Number(current === 1)},
+			downvotes = COALESCE(downvotes, 0) + ${Number(next === -1) - Number(current === -1)}
+			WHERE id = ${id} RETURNING ${ideaColumns()}`,
+			"IDEA_NOT_FOUND",
+		);
+		return { ...idea, user_vote: next };
+	});
+}
+
 app.post(
 	"/ideas/up/:id",
 	describeRoute({
 		method: "post",
 		path: "/ideas/up/:id",
 		tags: ["ideas"],
-		description: "Vote on an idea",
+		description:
+			"Upvote an idea. Upvoting again clears the vote, upvoting a downvoted idea switches the vote.",
 		parameter: id_param,
 		responses: {
-			200: json200(ideasSchemaWithTags),
-			404: error404,
+			200: json200(ideaVoteSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number() })),
+	zValidator("param", z.object({ id: z.coerce.number() })),
 	async (c) => {
 		const { id } = c.req.valid("param");
-		const rows =
-			await sql`UPDATE ideas SET upvotes = upvotes + 1 WHERE id = ${id} RETURNING *`;
-		return c.json(rows[0]);
+		const user_id = currentUser(c);
+		return c.json(await castVote(id, user_id, 1, "toggle"));
 	},
 );
 
@@ -369,20 +987,22 @@ app.post(
 		method: "post",
 		path: "/ideas/down/:id",
 		tags: ["ideas"],
-		description: "Vote on an idea",
+		description:
+			"Downvote an idea. Downvoting again clears the vote, downvoting an upvoted idea switches the vote.",
 		parameter: id_param,
 		responses: {
-			200: json200(ideasSchemaWithTags),
-			404: error404,
+			200: json200(ideaVoteSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number() })),
+	zValidator("param", z.object({ id: z.coerce.number() })),
 	async (c) => {
 		const { id } = c.req.valid("param");
-		const rows =
-			await sql`UPDATE ideas SET downvotes = downvotes + 1 WHERE id = ${id} RETURNING *`;
-		return c.json(rows[0]);
+		const user_id = currentUser(c);
+		return c.json(await castVote(id, user_id, -1, "toggle"));
 	},
 );
 
@@ -392,20 +1012,21 @@ app.delete(
 		method: "delete",
 		path: "/ideas/up/:id",
 		tags: ["ideas"],
-		description: "Vote on an idea",
+		description: "Remove an upvote from an idea",
 		parameter: id_param,
 		responses: {
-			200: json200(ideasSchemaWithTags),
-			404: error404,
+			200: json200(ideaVoteSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number() })),
+	zValidator("param", z.object({ id: z.coerce.number() })),
 	async (c) => {
 		const { id } = c.req.valid("param");
-		const rows =
-			await sql`UPDATE ideas SET upvotes = upvotes - 1 WHERE id = ${id} RETURNING *`;
-		return c.json(rows[0]);
+		const user_id = currentUser(c);
+		return c.json(await castVote(id, user_id, 1, "clear"));
 	},
 );
 
@@ -415,20 +1036,81 @@ app.delete(
 		method: "delete",
 		path: "/ideas/down/:id",
 		tags: ["ideas"],
-		description: "Vote on an idea",
+		description: "Remove a downvote from an idea",
+		parameter: id_param,
+		responses: {
+			200: json200(ideaVoteSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			404: problems("IDEA_NOT_FOUND"),
+			500: error500,
+		},
+	}),
+	zValidator("param", z.object({ id: z.coerce.number() })),
+	async (c) => {
+		const { id } = c.req.valid("param");
+		const user_id = currentUser(c);
+		return c.json(await castVote(id, user_id, -1, "clear"));
+	},
+);
+
+app.post(
+	"/ideas/hide/:id",
+	describeRoute({
+		method: "post",
+		path: "/ideas/hide/:id",
+		tags: ["ideas"],
+		description: "Hide an idea from all listings (moderators and admins)",
 		parameter: id_param,
 		responses: {
-			200: json200(ideasSchemaWithTags),
-			404: error404,
+			200: json200(ideasSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number() })),
+	zValidator("param", z.object({ id: z.coerce.number() })),
+	authorize("idea:hide"),
 	async (c) => {
 		const { id } = c.req.valid("param");
-		const rows =
-			await sql`UPDATE ideas SET downvotes = downvotes - 1 WHERE id = ${id} RETURNING *`;
-		return c.json(rows[0]);
+		return c.json(
+			await found(
+				sql`UPDATE ideas SET hidden = TRUE WHERE id = ${id} RETURNING ${ideaColumns()}`,
+				"IDEA_NOT_FOUND",
+			),
+		);
+	},
+);
+
+app.delete(
+	"/ideas/hide/:id",
+	describeRoute({
+		method: "delete",
+		path: "/ideas/hide/:id",
+		tags: ["ideas"],
+		description: "Make a hidden idea visible again (moderators and admins)",
+		parameter: id_param,
+		responses: {
+			200: json200(ideasSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			404: problems("IDEA_NOT_FOUND"),
+			500: error500,
+		},
+	}),
+	zValidator("param", z.object({ id: z.coerce.number() })),
+	authorize("idea:hide"),
+	async (c) => {
+		const { id } = c.req.valid("param");
+		return c.json(
+			await found(
+				sql`UPDATE ideas SET hidden = FALSE WHERE id = ${id} RETURNING ${ideaColumns()}`,
+				"IDEA_NOT_FOUND",
+			),
+		);
 	},
 );
 
@@ -438,16 +1120,46 @@ app.get("/ideas/user/:user_id", describeRoute({
     tags: ["ideas"],
     description: "Get ideas by user ID",
     parameter: id_param,
+    parameters: page_params,
     responses: {
-        200: json200(z.array(ideasSchemaWithTags)),
+        200: json200(pageSchema(ideasSchema)),
+        400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
         500: error500,
     },
-}), zValidator("param", z.object({ user_id: z.string() })), async (c) => {
+}), zValidator("param", z.object({ user_id: z.string() })), zValidator("query", pageQuery), async (c) => {
     const { user_id } = c.req.valid("param");
-    const rows = await sql`SELECT * FROM ideas WHERE user_id = ${user_id} ORDER BY created_at DESC`;
-    return c.json(rows);
+    const ideas = sql`SELECT ${ideaColumns("i")} FROM ideas i WHERE i.user_id = ${user_id} AND ${visibleIdeas(c.get("user_id"))}`;
+    return c.json(await paginate(ideas, [{ column: "created_at", direction: "desc" }], c.req.valid("query")));
 })
 
+app.get(
+	"/ideas/file/:id/:name",
+	describeRoute({
+		method: "get",
+		path: "/ideas/file/:id/:name",
+		tags: ["ideas"],
+		description:
+			"Download a file of an idea. Redirects to a short-lived signed URL when the caller can see the idea and the file is one of its files.",
+		parameter: id_param,
+		responses: {
+			302: { description: "Redirect to the file" },
+			400: problems("VALIDATION_FAILED"),
+			404: problems("FILE_NOT_FOUND"),
+			500: error500,
+		},
+	}),
+	zValidator("param", z.object({ id: z.coerce.number(), name: file_name })),
+	async (c) => {
+		const { id, name } = c.req.valid("param");
+		await found(
+			sql`SELECT 1 FROM ideas i
+			WHERE i.id = ${id} AND ${idea_file_url(c, id, name)} = ANY(i.files_url) AND ${visibleIdeas(c.get("user_id"))}`,
+			"FILE_NOT_FOUND",
+		);
+		return c.redirect(s3.file(`${id}/${name}`).presign({ expiresIn: 300 }));
+	},
+);
+
 app.post(
 	"/ideas/file/:id",
 	describeRoute({
@@ -458,26 +1170,29 @@ app.post(
 		parameter: id_param,
 		content: file_content,
 		responses: {
-			200: json200(ideasSchemaWithTags),
-			404: error404,
+			200: json200(ideasSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number() })),
+	zValidator("param", z.object({ id: z.coerce.number() })),
+	authorize("idea:update"),
 	async (c) => {
 		const { id } = c.req.valid("param");
-		const body = await c.req.parseBody();
-		const file = body.file as File;
-		const { AWS_BUCKET_NAME } = env<{ AWS_BUCKET_NAME: string }>(c);
-		const file_name = `${id}/${file.name}`;
-		const file_url =
-			`https://${AWS_BUCKET_NAME}.fly.storage.tigris.dev/${file_name}`;
-
-		const s3file = s3.file(file_name);
+		const file = await uploadedFile(c);
+		const file_url = idea_file_url(c, id, file.name);
+
+		const s3file = s3.file(`${id}/${file.name}`);
 		await s3file.write(await file.arrayBuffer());
-		const rows =
-			await sql`UPDATE ideas SET files_url = array_append(files_url, ${file_url}) WHERE id = ${id} RETURNING *`;
-		return c.json(rows[0]);
+		return c.json(
+			await found(
+				sql`UPDATE ideas SET files_url = array_append(files_url, ${file_url}) WHERE id = ${id} RETURNING ${ideaColumns()}`,
+				"IDEA_NOT_FOUND",
+			),
+		);
 	},
 );
 
@@ -490,26 +1205,29 @@ app.delete(
 		description: "Remove a file from an idea",
 		parameter: id_param,
 		responses: {
-			200: json200(ideasSchemaWithTags),
-			404: error404,
+			200: json200(ideasSchema),
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number() })),
+	zValidator("param", z.object({ id: z.coerce.number() })),
+	authorize("idea:update"),
 	async (c) => {
 		const { id } = c.req.valid("param");
-		const body = await c.req.parseBody();
-		const file = body.file as File;
-		const { AWS_BUCKET_NAME } = env<{ AWS_BUCKET_NAME: string }>(c);
-		const file_name = `${id}/${file.name}`;
-		const file_url =
-			`https://${AWS_BUCKET_NAME}.fly.storage.tigris.dev/${file_name}`;
-
-		const s3file = s3.file(file_name);
+		const file = await uploadedFile(c);
+		const file_url = idea_file_url(c, id, file.name);
+
+		const s3file = s3.file(`${id}/${file.name}`);
 		await s3file.delete();
-		const rows =
-			await sql`UPDATE ideas SET files_url = array_remove(files_url, ${file_url}) WHERE id = ${id} RETURNING *`;
-		return c.json(rows[0]);
+		return c.json(
+			await found(
+				sql`UPDATE ideas SET files_url = array_remove(files_url, ${file_url}) WHERE id = ${id} RETURNING ${ideaColumns()}`,
+				"IDEA_NOT_FOUND",
+			),
+		);
 	},
 );
 
@@ -519,40 +1237,61 @@ app.post(
 		method: "post",
 		path: "/ideas/:id/:tag",
 		tags: ["ideas"],
-		description: "Add a tag to an idea",
+		description: "Add a tag to an idea, creating the tag if it does not exist",
 		parameter: id_tag_param,
 		responses: {
 			200: resp200,
-			404: error404,
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number(), tag: z.string() })),
+	zValidator("param", z.object({ id: z.coerce.number(), tag: tagName })),
+	authorize("idea:update"),
 	async (c) => {
-		const { id, tag } = c.req.valid("param");
-		await sql`INSERT INTO ideas_tags VALUES (${id}, (SELECT id FROM tags WHERE name = ${tag} )) RETURNING *`;
+		const { id, tag: requested } = c.req.valid("param");
+		await sql.begin(async (sql) => {
+			await sql`SELECT id FROM ideas WHERE id = ${id} FOR UPDATE`;
+			const [tag = requested] = await resolveTags([requested], sql);
+			await sql`INSERT INTO tags (name) VALUES (${tag}) ON CONFLICT (name) DO NOTHING`;
+			await sql`INSERT INTO ideas_tags (idea_id, tag_id)
+			SELECT ${id}, t.id FROM tags t WHERE t.name = ${tag}
+			ON CONFLICT DO NOTHING`;
+			await recordRevision(sql, id, currentUser(c));
+		});
 		return c.body(null, 200);
 	},
 );
 
 app.delete(
-	"/ideas/tag/:id",
+	"/ideas/:id/:tag",
 	describeRoute({
 		method: "delete",
-		path: "/ideas/tag/:id",
+		path: "/ideas/:id/:tag",
 		tags: ["ideas"],
 		description: "Remove a tag from an idea",
 		parameter: id_tag_param,
 		responses: {
 			200: resp200,
-			404: error404,
+			400: problems("VALIDATION_FAILED"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			403: problems("FORBIDDEN"),
+			404: problems("IDEA_NOT_FOUND"),
 			500: error500,
 		},
 	}),
-	zValidator("param", z.object({ id: z.number(), tag: z.string() })),
+	zValidator("param", z.object({ id: z.coerce.number(), tag: tagName })),
+	authorize("idea:update"),
 	async (c) => {
-		const { id, tag } = c.req.valid("param");
-		await sql`DELETE FROM ideas_tags WHERE idea_id = ${id} AND tag_id = (SELECT id FROM tags WHERE name = ${tag})`;
+		const { id, tag: requested } = c.req.valid("param");
+		await sql.begin(async (sql) => {
+			await sql`SELECT id FROM ideas WHERE id = ${id} FOR UPDATE`;
+			const [tag = requested] = await resolveTags([requested], sql);
+			await sql`DELETE FROM ideas_tags WHERE idea_id = ${id} AND tag_id = (SELECT id FROM tags WHERE name = ${tag})`;
+			await recordRevision(sql, id, currentUser(c));
+		});
 		return c.body(null, 200);
 	},
 );
@@ -0,0 +1,201 @@
+import { resolver } from "hono-openapi/zod";
+import { ApiError } from "../errors.ts";
+import type { PendingQuery, Row } from "postgres";
+import { z } from "zod";
+import "zod-openapi/extend";
+import { sql } from "../db.ts";
+
+export type SortKey = {
+	column: string;
+	direction: "asc" | "desc";
+};
+
+const limit = z.coerce.number().int().min(1).max(100).default(20).openapi({
+	title: "Limit",
+	description: "Maximum number of items to return",
+	example: 20,
+});
+
+const cursor = z.string().optional().openapi({
+	title: "Cursor",
+	description:
+		"Opaque cursor taken from the `next_cursor` of the previous page",
+});
+
+const total = z
+	.enum(["true", "false"])
+	.optional()
+	.transform((value) => value === "true")
+	.openapi({
+		title: "Total",
+		description: "Also count all matching items",
+		example: "true",
+	});
+
+export const pageQuery = z.object({ limit, cursor, total });
+
+export type PageQuery = z.infer<typeof pageQuery>;
+
+export const page_params = [
+	{
+		name: "limit",
+		in: "query",
+		required: false,
+		description: "Maximum number of items to return (1-100, default 20)",
+		schema: resolver(limit),
+	},
+	{
+		name: "cursor",
+		in: "query",
+		required: false,
+		description: "Cursor returned as `next_cursor` by the previous page",
+		schema: resolver(cursor),
+	},
+	{
+		name: "total",
+		in: "query",
+		required: false,
+		description: "Include the total number of matching items",
+		schema: resolver(z.enum(["true", "false"])),
+	},
+];
+
+export const pageSchema = (item: z.ZodTypeAny) =>
+	z.object({
+		items: z.array(item),
+		next_cursor: z.string().nullable().openapi({
+			title: "Next cursor",
+			description:
+				"Pass as `cursor` to get the next page, null on the last page",
+			example: "WyIyMDI1LTAxLTAxVDAwOjAwOjAwIiwxMl0",
+		}),
+		total: z.number().optional().openapi({
+			title: "Total",
+			description: "Number of matching items, only present when requested",
+			example: 42,
+		}),
+	});
+
+// oid of the "unknown" pseudo-type, i.e. an untyped literal.
+const UNKNOWN = 705;
+
+// Joins fragments with commas.
+function list(fragments: PendingQuery<Row[]>[]): PendingQuery<Row[]> {
+	const [first, ...rest] = fragments;
+	if (!first) {
+		return sql``;
+	}
+	return rest.length === 0 ? first : sql`${first}, ${list(rest)}`;
+}
+
+// Rows strictly after `values` in the order given by `keys`. Directions can
+// differ per key, so this expands to k1 > v1 OR (k1 = v1 AND (k2 > v2 OR ...)).
+// NULLs sort last in either direction, so a NULL value is only followed by
+// NULLs and a non-NULL one by larger values and every NULL.
+function after(keys: SortKey[], values: unknown[]): PendingQuery<Row[]> {
+	const [key, ...rest] = keys;
+	const [value, ...restValues] = values;
+	if (!key) {
+		return sql`FALSE`;
+	}
+	const column = sql(`page.${key.column}`);
+	if (value === null) {
+		return sql`(${column} IS NULL AND ${after(rest, restValues)})`;
+	}
+	const op = key.direction === "asc" ? sql`>` : sql`<`;
+	// Sent as an untyped literal so Postgres parses it as the column's type;
+	// a typed timestamp parameter would be rounded to milliseconds.
+	const v = sql.typed(String(value), UNKNOWN);
+	if (rest.length === 0) {
+		return sql`(${column} ${op} ${v} OR ${column} IS NULL)`;
+	}
+	return sql`(${column} ${op} ${v} OR ${column} IS NULL OR (${column} = ${v} AND ${after(rest, restValues)}))`;
+}
+
+// Cursor of a page ending at the row whose sort values are the JSON array
+// `values`.
+export const encodeCursor = (values: string) =>
+	Buffer.from(values).toString("base64url");
+
+// Sort values of a cursor, which has to hold `length` of them.
+export function decodeCursor(cursor: string, length: number): unknown[] {
+	try {
+		const values = JSON.parse(Buffer.from(cursor, "base64url").toString());
+		if (Array.isArray(values) && values.length === length) {
+			return values;
+		}
+	} catch {}
+	throw new ApiError("INVALID_CURSOR");
+}
+
+// Time a page is computed at, for sort values that depend on it. The first
+// page takes the current time and later pages reuse it from the cursor.
+export function decodeAsOf(value: unknown): Date {
+	const as_of = typeof value === "string" ? new Date(value) : undefined;
+	if (!as_of || Number.isNaN(as_of.getTime())) {
+		throw new ApiError("INVALID_CURSOR");
+	}
+	return as_of;
+}
+
+/**
+ * Runs `base` (a SELECT without ORDER BY or LIMIT) one page at a time,
+ * ordered by `keys` and then by the unique `tiebreaker` column so the order is
+ * stable. NULL sort values come last in either direction. The cursor holds
+ * the sort values of the last returned row, encoded by Postgres itself so
+ * timestamps keep their full precision and NULLs stay NULL.
+ *
+ * When a sort value depends on the current time, pass `base` as a function
+ * of the time to compute it at instead of using now(). The cursor then also
+ * carries that time, so every page of a listing sees the same values.
+ */
+export async function paginate(
+	base: PendingQuery<Row[]> | ((as_of: Date) => PendingQuery<Row[]>),
+	keys: SortKey[],
+	page: PageQuery,
+	tiebreaker = "id",
+) {
+	const order = keys.some((key) => key.column === tiebreaker)
+		? keys
+		: [
+				...keys,
+				{ column: tiebreaker, direction: keys[0]?.direction ?? "asc" } as const,
+			];
+	const timed = typeof base === "function";
+	let values = page.cursor
+		? decodeCursor(page.cursor, order.length + (timed ? 1 : 0))
+		: undefined;
+	let query = base as PendingQuery<Row[]>;
+	let snapshot = sql``;
+	if (timed) {
+		const as_of = values ? decodeAsOf(values[0]) : new Date();
+		values = values?.slice(1);
+		query = base(as_of);
+		snapshot = sql`${as_of}::timestamptz, `;
+	}
+	const where = values ? sql`WHERE ${after(order, values)}` : sql``;
+
+	const rows = await sql`SELECT page.*,
+		json_build_array(${snapshot}${list(order.map((key) => sql`${sql(`page.${key.column}`)}`))})::text AS page_cursor
+		FROM (${query}) page
+		${where}
+		ORDER BY ${list(order.map((key) => sql`${sql(`page.${key.column}`)} ${key.direction === "asc" ? sql`ASC` : sql`DESC`} NULLS LAST`))}
+		LIMIT ${page.limit + 1}`;
+
+	const items = rows
+		.slice(0, page.limit)
+		.map(({ page_cursor, ...item }) => item);
+	const last = rows[page.limit - 1];
+	const result: { items: Row[]; next_cursor: string | null; total?: number } = {
+		items,
+		next_cursor:
+			rows.length > page.limit && last
+				? encodeCursor(last.page_cursor)
+				: null,
+	};
+	if (page.total) {
+		const counts = await sql`SELECT COUNT(*)::int AS total FROM (${query}) page`;
+		result.total = counts[0]?.total;
+	}
+	return result;
+}
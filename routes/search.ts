@@ -0,0 +1,203 @@
+import { Hono } from "hono";
+import "zod-openapi/extend";
+import { z } from "zod";
+import { describeRoute } from "hono-openapi";
+import { resolver } from "hono-openapi/zod";
+import { zValidator } from "./validator.ts";
+import { sql } from "../db.ts";
+import { visibleFeedbacks, visibleIdeas } from "../access.ts";
+import { error500, json200, problems } from "./error.ts";
+import { pageQuery, pageSchema, page_params, paginate } from "./pagination.ts";
+import { resolveTags, tagName } from "./tags.ts";
+
+const app = new Hono();
+
+const q = z.string().min(1).openapi({
+	title: "Query",
+	description: "Search terms, supports quoted phrases, OR and -exclusions",
+	example: "dark mode",
+});
+
+const type = z.enum(["all", "idea", "feedback"]).default("all").openapi({
+	title: "Type",
+	description: "Only search ideas or feedbacks",
+	example: "all",
+});
+
+const tag = tagName.optional().openapi({
+	title: "Tag",
+	description: "Only match ideas with this tag or alias, or feedbacks on them",
+	example: "tag1",
+});
+
+const author = z.string().optional().openapi({
+	title: "Author",
+	description: "Only match ideas or feedbacks written by this user",
+	example: "1",
+});
+
+const query_params = [
+	{
+		name: "q",
+		in: "query",
+		required: true,
+		description: "Search terms",
+		schema: resolver(q),
+	},
+	{
+		name: "type",
+		in: "query",
+		required: false,
+		description: "Only search ideas or feedbacks",
+		schema: resolver(type),
+	},
+	{
+		name: "tag",
+		in: "query",
+		required: false,
+		description: "Filter by tag",
+		schema: resolver(tag),
+	},
+	{
+		name: "author",
+		in: "query",
+		required: false,
+		description: "Filter by author",
+		schema: resolver(author),
+	},
+];
+
+const searchResultSchema = z.object({
+	type: z.enum(["idea", "feedback"]).openapi({
+		title: "Type",
+		example: "idea",
+	}),
+	id: z.number().openapi({
+		title: "ID",
+		description: "ID of the idea or feedback",
+		example: 1,
+	}),
+	idea_id: z.number().openapi({
+		title: "Idea ID",
+		example: 1,
+	}),
+	user_id: z.string().openapi({
+		title: "User ID",
+		example: "1",
+	}),
+	title: z.string().nullable().openapi({
+		title: "Title",
+		description: "Title of the idea, null for feedbacks",
+		example: "Add a dark mode",
+	}),
+	snippet: z.string().openapi({
+		title: "Snippet",
+		description: "Matching text with the search terms wrapped in <mark>",
+		example: "Add a <mark>dark</mark> <mark>mode</mark> to the app",
+	}),
+	rank: z.number().openapi({
+		title: "Rank",
+		example: 0.6,
+	}),
+	created_at: z.string().openapi({
+		title: "Created at",
+		example: "2025-01-01T00:00:00.000Z",
+	}),
+});
+
+const headline = "StartSel=<mark>, StopSel=</mark>, MaxFragments=2";
+
+app.get(
+	"/search",
+	describeRoute({
+		method: "get",
+		path: "/search",
+		tags: ["search"],
+		description:
+			"Full-text search across ideas and feedbacks, best matches first",
+		parameters: [...query_params, ...page_params],
+		responses: {
+			200: json200(pageSchema(searchResultSchema)),
+			400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+			500: error500,
+		},
+	}),
+	zValidator("query", pageQuery.extend({ q, type, tag, author })),
+	async (c) => {
+		const { q, type, tag, author, ...page } = c.req.valid("query");
+		const viewer = c.get("user_id");
+		const [resolved] = tag ? await resolveTags([tag]) : [];
+		const tagged = (idea_id: string) =>
+			resolved
+				? sql`AND EXISTS (
+					SELECT 1 FROM ideas_tags it JOIN tags t ON t.id = it.tag_id
+					WHERE it.idea_id = ${sql(idea_id)} AND t.name = ${resolved}
+				)`
+				: sql``;
+		const by = (user_id: string) =>
+			author ? sql`AND ${sql(user_id)} = ${author}` : sql``;
+
+		const ideas = sql`SELECT
+			'idea' AS type,
+			i.id,
+			i.id AS idea_id,
+			i.user_id,
+			i.title,
+			coalesce(i.title, '') || ' ' || coalesce(i.content, '') AS document,
+			ts_rank(i.search_vector, query)::float8 AS rank,
+			i.created_at
+			FROM ideas i, websearch_to_tsquery('english', ${q}) query
+			WHERE i.search_vector @@ query
+			AND ${visibleIdeas(viewer)}
+			${tagged("i.id")}
+			${by("i.user_id")}`;
+
+		const feedbacks = sql`SELECT
+			'feedback' AS type,
+			f.id,
+			f.idea_id,
+			f.user_id,
+			NULL AS title,
+			coalesce(f.content, '') AS document,
+			ts_rank(f.search_vector, query)::float8 AS rank,
+			f.created_at
+			FROM feedbacks f, websearch_to_tsquery('english', ${q}) query
+			WHERE f.search_vector @@ query
+			AND ${visibleFeedbacks(viewer)}
+			${tagged("f.idea_id")}
+			${by("f.user_id")}`;
+
+		const results =
+			type === "idea"
+				? ideas
+				: type === "feedback"
+					? feedbacks
+					: sql`${ideas} UNION ALL ${feedbacks}`;
+
+		const result = await paginate(
+			results,
+			[
+				{ column: "rank", direction: "desc" },
+				{ column: "type", direction: "desc" },
+				{ column: "id", direction: "desc" },
+			],
+			page,
+		);
+
+		// ts_headline is slow, so it only runs for the page rather than for
+		// every match.
+		const snippets = await sql`SELECT
+			ts_headline('english', d.document, websearch_to_tsquery('english', ${q}), ${headline}) AS snippet
+			FROM unnest(${result.items.map((item) => item.document)}::text[]) WITH ORDINALITY AS d(document, position)
+			ORDER BY d.position`;
+		return c.json({
+			...result,
+			items: result.items.map(({ document, ...item }, i) => ({
+				...item,
+				snippet: snippets[i]?.snippet,
+			})),
+		});
+	},
+);
+
+export default app;
@@ -0,0 +1,47 @@
+import { resolver } from "hono-openapi/zod";
+import { z } from "zod";
+import "zod-openapi/extend";
+import type { SortKey } from "./pagination.ts";
+
+// `sort=-upvotes,created_at`: comma separated columns, each ascending unless
+// prefixed with "-". Only the columns listed for the resource are accepted.
+function sortString(columns: readonly string[], fallback: string) {
+	const column = `(${columns.join("|")})`;
+	const description = `Comma separated list of ${columns.join(", ")}. Prefix a column with - to sort descending. Defaults to ${fallback}.`;
+	return z
+		.string()
+		.regex(new RegExp(`^-?${column}(,-?${column})*$`), description)
+		.optional()
+		.openapi({
+			title: "Sort",
+			description,
+			example: fallback,
+		});
+}
+
+function parseSort(value: string): SortKey[] {
+	const keys: SortKey[] = [];
+	for (const part of value.split(",")) {
+		const column = part.replace(/^-/, "");
+		if (!keys.some((key) => key.column === column)) {
+			keys.push({ column, direction: part.startsWith("-") ? "desc" : "asc" });
+		}
+	}
+	return keys;
+}
+
+export const sortQuery = (columns: readonly string[], fallback: string) =>
+	sortString(columns, fallback).transform((value) =>
+		parseSort(value ?? fallback),
+	);
+
+export const sortParameter = (
+	columns: readonly string[],
+	fallback: string,
+) => ({
+	name: "sort",
+	in: "query",
+	required: false,
+	description: `Sort order. Allowed columns: ${columns.join(", ")}`,
+	schema: resolver(sortString(columns, fallback)),
+});
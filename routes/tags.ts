@@ -2,15 +2,64 @@ import { Hono } from "hono";
 import "zod-openapi/extend";
 import { z } from "zod";
 import { describeRoute } from "hono-openapi";
-import { resolver, validator as zValidator } from "hono-openapi/zod";
-import { HTTPException } from "hono/http-exception";
-import { sql } from "../db.ts";
-import { error404, error500, json200, resp200 } from "./error.ts";
+import { resolver } from "hono-openapi/zod";
+import type { Sql } from "postgres";
+import { zValidator } from "./validator.ts";
+import { ApiError } from "../errors.ts";
+import { found, sql } from "../db.ts";
+import { currentUser } from "../auth.ts";
+import { authorize } from "../policy.ts";
+import { audit, clientIp, snapshot } from "../audit.ts";
+import { visibleFeedbacks, visibleIdeas } from "../access.ts";
+import { error500, json200, problems, resp200, resp304 } from "./error.ts";
+import { expectedVersion, if_match_param, if_none_match_param, modified, notModified, setETag } from "./etag.ts";
+import { pageQuery, pageSchema, page_params, paginate } from "./pagination.ts";
 
 const app = new Hono();
 
-const tagsSchema = z.array(z.string()).openapi({
-  example: ["tag1", "tag2", "tag3"],
+// Tag names are stored trimmed and lowercased, so "Dark Mode " and
+// "dark mode" name the same tag.
+export const tagName = z.string().trim().toLowerCase().min(1).max(50).openapi({
+  title: "Tag name",
+  description: "Trimmed and lowercased, 1 to 50 characters",
+  example: "tag1",
+});
+
+export const tagNames = z
+  .array(tagName)
+  .transform((names) => [...new Set(names)])
+  .openapi({
+    title: "Tags",
+    description: "Normalized like tag names, duplicates are dropped",
+    example: ["tag1", "tag2"],
+    effectType: "same",
+  });
+
+/**
+ * `names` with every alias replaced by the name of the tag it points to,
+ * deduplicated and in order. Names are expected to be normalized, see tagName.
+ */
+export async function resolveTags(names: string[], db: Sql = sql): Promise<string[]> {
+  if (names.length === 0) {
+    return [];
+  }
+  const rows = await db`SELECT COALESCE(t.name, n.name) AS name
+    FROM unnest(${names}::text[]) WITH ORDINALITY AS n(name, position)
+    LEFT JOIN tag_aliases a ON a.alias = n.name
+    LEFT JOIN tags t ON t.id = a.tag_id
+    ORDER BY n.position`;
+  return [...new Set(rows.map((row) => row.name as string))];
+}
+
+const tagsSchema = z.object({
+  id: z.number().openapi({
+    title: "Tag ID",
+    example: 1,
+  }),
+  name: z.string().openapi({
+    title: "Tag name",
+    example: "tag1",
+  }),
 });
 
 const tagSchema = z.object({
@@ -30,8 +79,190 @@ const tagSchema = z.object({
     title: "Downvotes",
     example: 5,
   }),
+  parent_id: z.number().nullable().openapi({
+    title: "Parent ID",
+    description: "ID of the tag this one is filed under, null for top level tags",
+    example: 2,
+  }),
+});
+
+const subtagSchema = z.object({
+  id: z.number().openapi({
+    title: "Tag ID",
+    example: 3,
+  }),
+  name: z.string().openapi({
+    title: "Tag name",
+    example: "postgres",
+  }),
+  parent: z.string().openapi({
+    title: "Parent",
+    description: "Name of the tag it is filed under",
+    example: "databases",
+  }),
+  depth: z.number().openapi({
+    title: "Depth",
+    description: "1 for children of the tag, 2 for their children and so on",
+    example: 1,
+  }),
+});
+
+const aliasSchema = z.object({
+  alias: z.string().openapi({
+    title: "Alias",
+    example: "ml",
+  }),
+  tag: z.string().openapi({
+    title: "Tag name",
+    description: "Name of the tag the alias resolves to",
+    example: "machine learning",
+  }),
+  created_at: z.string().openapi({
+    title: "Created at",
+    example: "2025-01-01T00:00:00.000Z",
+  }),
+});
+
+const tagStatsSchema = tagsSchema.extend({
+  idea_count: z.number().optional().openapi({
+    title: "Idea count",
+    description: "Ideas with this tag the caller can see, only with include=stats",
+    example: 12,
+  }),
+  pinned_count: z.number().optional().openapi({
+    title: "Pinned count",
+    description: "Users who pinned this tag, only with include=stats",
+    example: 3,
+  }),
+  net_votes: z.number().optional().openapi({
+    title: "Net votes",
+    description: "Upvotes minus downvotes, only with include=stats",
+    example: 5,
+  }),
 });
 
+const trendingTagSchema = z.object({
+  name: z.string().openapi({
+    title: "Tag name",
+    example: "tag1",
+  }),
+  new_ideas: z.number().openapi({
+    title: "New ideas",
+    description: "Ideas with this tag created in the window",
+    example: 4,
+  }),
+  activity: z.number().openapi({
+    title: "Activity",
+    description: "Feedbacks and votes cast in the window on ideas with this tag",
+    example: 17,
+  }),
+  score: z.number().openapi({
+    title: "Score",
+    description: "New ideas plus activity, the tags are ranked by it",
+    example: 21,
+  }),
+});
+
+const suggestionSchema = z.object({
+  name: z.string().openapi({
+    title: "Tag name",
+    example: "machine learning",
+  }),
+  idea_count: z.number().openapi({
+    title: "Idea count",
+    description: "Ideas with this tag the caller can see",
+    example: 12,
+  }),
+});
+
+const include = z.enum(["stats"]).optional().openapi({
+  title: "Include",
+  description: "Also return idea_count, pinned_count and net_votes of every tag",
+  example: "stats",
+});
+
+// A window like 24h or 7d, as a number of hours.
+const window = z
+  .string()
+  .regex(/^[1-9][0-9]*[hd]$/, "Expected a number of hours or days, like 24h or 7d")
+  .default("7d")
+  .transform((value) => Number.parseInt(value) * (value.endsWith("d") ? 24 : 1))
+  .refine((hours) => hours <= 90 * 24, "The window can be at most 90 days")
+  .openapi({
+    title: "Window",
+    description: "How far back to look, in hours (24h) or days (7d), at most 90 days",
+    example: "7d",
+  });
+
+const prefix = z.string().trim().toLowerCase().min(1).max(50).openapi({
+  title: "Prefix",
+  description: "What has been typed so far, matched against tag names and aliases",
+  example: "mach",
+});
+
+const limit = z.coerce.number().int().min(1).max(50).default(10).openapi({
+  title: "Limit",
+  description: "Maximum number of tags to return",
+  example: 10,
+});
+
+const limit_param = {
+  name: "limit",
+  in: "query",
+  required: false,
+  description: "Maximum number of tags to return (1-50, default 10)",
+  schema: resolver(limit),
+};
+
+// SQL for the number of ideas with the tag (aliased `t`) that `viewer` can see.
+function ideaCount(viewer: string | undefined) {
+  return sql`(SELECT COUNT(*)::int FROM ideas_tags it
+    JOIN ideas i ON i.id = it.idea_id
+    WHERE it.tag_id = t.id AND ${visibleIdeas(viewer)})`;
+}
+
+const updateBody = z
+  .object({
+    name: tagName.optional(),
+    parent: tagName.nullable().optional().openapi({
+      title: "Parent",
+      description: "Tag (or alias) to file this one under, null to make it a top level tag",
+      example: "databases",
+    }),
+  })
+  .refine((body) => body.name !== undefined || body.parent !== undefined, {
+    message: "Expected a new name, a parent or both",
+  });
+
+const mergeBody = z.object({
+  into: tagName.openapi({
+    title: "Into",
+    description: "Tag that takes over the ideas, pins, votes and aliases of the merged one",
+    example: "machine learning",
+  }),
+});
+
+const aliasBody = z.object({ alias: tagName });
+
+// Key of the advisory lock held by every change to the tag hierarchy, so two
+// concurrent moves cannot close a loop between them.
+const HIERARCHY_LOCK = 4171002;
+
+async function lockHierarchy(db: Sql) {
+  await db`SELECT pg_advisory_xact_lock(${HIERARCHY_LOCK})`;
+}
+
+// Whether the tag `ancestor` is `id` itself or one of the tags above it.
+async function isAncestor(db: Sql, ancestor: number, id: number) {
+  const rows = await db`WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM tags WHERE id = ${id}
+      UNION
+      SELECT t.id, t.parent_id FROM tags t JOIN ancestors a ON t.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = ${ancestor}`;
+  return rows.length > 0;
+}
+
 const name_param = {
   name: {
     name: "name",
@@ -50,14 +281,137 @@ app.get(
     path: "/tags",
     tags: ["tags"],
     description: "Get all tags",
+    parameters: [
+      {
+        name: "include",
+        in: "query",
+        required: false,
+        description: "Set to stats to add usage counts to every tag",
+        schema: resolver(include),
+      },
+      ...page_params,
+    ],
+    responses: {
+      200: json200(pageSchema(tagStatsSchema)),
+      400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+      500: error500,
+    },
+  }),
+  zValidator("query", pageQuery.extend({ include })),
+  async (c) => {
+    const { include, ...page } = c.req.valid("query");
+    const stats = include === "stats"
+      ? sql`, ${ideaCount(c.get("user_id"))} AS idea_count,
+        (SELECT COUNT(*)::int FROM users_pinned_tags p WHERE p.tag_id = t.id) AS pinned_count,
+        COALESCE(t.upvotes, 0) - COALESCE(t.downvotes, 0) AS net_votes`
+      : sql``;
+    const tags = sql`SELECT t.id, t.name ${stats} FROM tags t`;
+    return c.json(await paginate(tags, [{ column: "name", direction: "asc" }], page));
+  },
+);
+
+// Registered before /tags/:name, which would match these paths too.
+app.get(
+  "/tags/trending",
+  describeRoute({
+    method: "get",
+    path: "/tags/trending",
+    tags: ["tags"],
+    description:
+      "Tags ranked by the ideas created with them in the window and the feedbacks and votes their ideas got in the window, only counting ideas the caller can see",
+    parameters: [
+      {
+        name: "window",
+        in: "query",
+        required: false,
+        description: "How far back to look, like 24h or 7d (default 7d, at most 90d)",
+        schema: resolver(z.string()),
+      },
+      limit_param,
+    ],
     responses: {
-      200: json200(tagsSchema),
+      200: json200(z.array(trendingTagSchema)),
+      400: problems("VALIDATION_FAILED"),
       500: error500,
     },
   }),
+  zValidator("query", z.object({ window, limit })),
   async (c) => {
-    const rows = await sql`SELECT name FROM tags`;
-    return c.json(rows);
+    const { window: hours, limit } = c.req.valid("query");
+    const viewer = c.get("user_id");
+    const since = sql`now() - make_interval(hours => ${hours})`;
+    // `recent` holds the ideas created, commented on or voted on in the
+    // window, however old they are.
+    const tags = await sql`WITH recent AS (
+        SELECT i.id FROM ideas i WHERE i.created_at >= ${since}
+        UNION
+        SELECT f.idea_id FROM feedbacks f WHERE f.created_at >= ${since}
+        UNION
+        SELECT v.idea_id FROM idea_votes v WHERE v.created_at >= ${since}
+      ), activity AS (
+        SELECT i.id, (i.created_at >= ${since})::int AS new_idea,
+          (SELECT COUNT(*) FROM feedbacks f
+            WHERE f.idea_id = i.id AND f.created_at >= ${since} AND ${visibleFeedbacks(viewer)})
+          + (SELECT COUNT(*) FROM idea_votes v WHERE v.idea_id = i.id AND v.created_at >= ${since}) AS activity
+        FROM recent r JOIN ideas i ON i.id = r.id
+        WHERE ${visibleIdeas(viewer)}
+      )
+      SELECT t.name, SUM(a.new_idea)::int AS new_ideas, SUM(a.activity)::int AS activity,
+        (SUM(a.new_idea) + SUM(a.activity))::int AS score
+      FROM activity a
+      JOIN ideas_tags it ON it.idea_id = a.id
+      JOIN tags t ON t.id = it.tag_id
+      GROUP BY t.id, t.name
+      ORDER BY score DESC, new_ideas DESC, t.name
+      LIMIT ${limit}`;
+    return c.json(tags);
+  },
+);
+
+app.get(
+  "/tags/suggest",
+  describeRoute({
+    method: "get",
+    path: "/tags/suggest",
+    tags: ["tags"],
+    description:
+      "Tags for autocomplete: names or aliases starting with the prefix come first, then similar ones by trigram word similarity, each tag once",
+    parameters: [
+      {
+        name: "prefix",
+        in: "query",
+        required: true,
+        description: "What has been typed so far",
+        schema: resolver(prefix),
+      },
+      limit_param,
+    ],
+    responses: {
+      200: json200(z.array(suggestionSchema)),
+      400: problems("VALIDATION_FAILED"),
+      500: error500,
+    },
+  }),
+  zValidator("query", z.object({ prefix, limit })),
+  async (c) => {
+    const { prefix, limit } = c.req.valid("query");
+    const starts = `${prefix.replace(/[\\%_]/g, "\\$&")}%`;
+    const tags = await sql`WITH candidates AS (
+        SELECT t.id AS tag_id, t.name AS term FROM tags t
+        WHERE t.name LIKE ${starts} OR ${prefix} <% t.name
+        UNION ALL
+        SELECT a.tag_id, a.alias FROM tag_aliases a
+        WHERE a.alias LIKE ${starts} OR ${prefix} <% a.alias
+      )
+      SELECT t.name, ${ideaCount(c.get("user_id"))} AS idea_count
+      FROM candidates m
+      JOIN tags t ON t.id = m.tag_id
+      GROUP BY t.id, t.name
+      ORDER BY bool_or(m.term LIKE ${starts}) DESC,
+        MAX(word_similarity(${prefix}, m.term)) DESC,
+        idea_count DESC, t.name
+      LIMIT ${limit}`;
+    return c.json(tags);
   },
 );
 
@@ -69,19 +423,23 @@ app.get(
     tags: ["tags"],
     description: "Get a tag by name",
     parameter: name_param,
+    parameters: [if_none_match_param],
     responses: {
       200: json200(tagSchema),
+      304: resp304,
+      400: problems("VALIDATION_FAILED"),
+      404: problems("TAG_NOT_FOUND"),
       500: error500,
     },
   }),
   zValidator("param", z.object({ name: z.string() })),
   async (c) => {
     const { name } = c.req.valid("param");
-    const rows = await sql`SELECT * FROM tags WHERE name = ${name}`;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "Tag not found" });
+    const tag = await found(sql`SELECT * FROM tags WHERE name = ${name}`, "TAG_NOT_FOUND");
+    if (notModified(c, tag.version)) {
+      return c.body(null, 304);
     }
-    return c.json(rows[0]);
+    return c.json(tag);
   },
 );
 
@@ -95,17 +453,15 @@ app.post(
     parameter: name_param,
     responses: {
       200: resp200,
-      404: error404,
+      400: problems("VALIDATION_FAILED"),
+      404: problems("TAG_NOT_FOUND"),
       500: error500,
     },
   }),
   zValidator("param", z.object({ name: z.string() })),
   async (c) => {
     const { name } = c.req.valid("param");
-    const rows = await sql`UPDATE tags SET upvotes = upvotes + 1 WHERE name = ${name} RETURNING *`;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "Tag not found" });
-    }
+    await found(sql`UPDATE tags SET upvotes = upvotes + 1 WHERE name = ${name} RETURNING *`, "TAG_NOT_FOUND");
     return c.body(null, 200);
   },
 );
@@ -120,17 +476,15 @@ app.post(
     parameter: name_param,
     responses: {
       200: resp200,
-      404: error404,
+      400: problems("VALIDATION_FAILED"),
+      404: problems("TAG_NOT_FOUND"),
       500: error500,
     },
   }),
   zValidator("param", z.object({ name: z.string() })),
   async (c) => {
     const { name } = c.req.valid("param");
-    const rows = await sql`UPDATE tags SET downvotes = downvotes + 1 WHERE name = ${name} RETURNING *`;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "Tag not found" });
-    }
+    await found(sql`UPDATE tags SET downvotes = downvotes + 1 WHERE name = ${name} RETURNING *`, "TAG_NOT_FOUND");
     return c.body(null, 200);
   },
 );
@@ -145,17 +499,15 @@ app.delete(
     parameter: name_param,
     responses: {
       200: resp200,
-      404: error404,
+      400: problems("VALIDATION_FAILED"),
+      404: problems("TAG_NOT_FOUND"),
       500: error500,
     },
   }),
   zValidator("param", z.object({ name: z.string() })),
   async (c) => {
     const { name } = c.req.valid("param");
-    const rows = await sql`UPDATE tags SET upvotes = upvotes - 1 WHERE name = ${name} RETURNING *`;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "Tag not found" });
-    }
+    await found(sql`UPDATE tags SET upvotes = upvotes - 1 WHERE name = ${name} RETURNING *`, "TAG_NOT_FOUND");
     return c.body(null, 200);
   },
 );
@@ -170,17 +522,355 @@ app.delete(
     parameter: name_param,
     responses: {
       200: resp200,
-      404: error404,
+      400: problems("VALIDATION_FAILED"),
+      404: problems("TAG_NOT_FOUND"),
       500: error500,
     },
   }),
   zValidator("param", z.object({ name: z.string() })),
   async (c) => {
     const { name } = c.req.valid("param");
-    const rows = await sql`UPDATE tags SET downvotes = downvotes - 1 WHERE name = ${name} RETURNING *`;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "Tag not found" });
+    await found(sql`UPDATE tags SET downvotes = downvotes - 1 WHERE name = ${name} RETURNING *`, "TAG_NOT_FOUND");
+    return c.body(null, 200);
+  },
+);
+
+// Admin routes address tags by their exact stored name, so tags created
+// before names were normalized can still be renamed, merged or deleted.
+
+app.patch(
+  "/tags/:name",
+  describeRoute({
+    method: "patch",
+    path: "/tags/:name",
+    tags: ["tags"],
+    description:
+      "Rename a tag or file it under another one (admins only). A tag cannot be filed under itself or its descendants",
+    parameter: name_param,
+    parameters: [if_match_param],
+    content: {
+      "application/json": {
+        schema: resolver(updateBody),
+      },
+    },
+    responses: {
+      200: json200(tagSchema),
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("FORBIDDEN"),
+      404: problems("TAG_NOT_FOUND"),
+      409: problems("TAG_CONFLICT", "TAG_HIERARCHY_CYCLE"),
+      412: problems("RESOURCE_MODIFIED"),
+      428: problems("IF_MATCH_REQUIRED"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ name: z.string() })),
+  zValidator("json", updateBody),
+  authorize("tag:update"),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const { name: new_name, parent } = c.req.valid("json");
+    const version = expectedVersion(c);
+    const tag = await sql.begin(async (sql) => {
+      if (parent !== undefined) {
+        await lockHierarchy(sql);
+      }
+      const current = await found(sql`SELECT * FROM tags WHERE name = ${name} FOR UPDATE`, "TAG_NOT_FOUND");
+      if (new_name !== undefined) {
+        const [alias] = await sql`SELECT a.alias FROM tag_aliases a
+        WHERE a.alias = ${new_name} AND a.tag_id <> ${current.id}`;
+        if (alias) {
+          throw new ApiError("TAG_CONFLICT", `${new_name} is an alias of another tag`);
+        }
+      }
+      let parent_id = current.parent_id;
+      if (parent !== undefined) {
+        parent_id = null;
+        if (parent !== null) {
+          const [resolved = parent] = await resolveTags([parent], sql);
+          const row = await found(sql`SELECT id FROM tags WHERE name = ${resolved}`, "TAG_NOT_FOUND", `Tag not found: ${parent}`);
+          if (await isAncestor(sql, current.id, row.id)) {
+            throw new ApiError("TAG_HIERARCHY_CYCLE", `${resolved} is ${name} or one of its descendants`);
+          }
+          parent_id = row.id;
+        }
+      }
+      const [tag] = await sql`UPDATE tags SET name = ${new_name ?? current.name}, parent_id = ${parent_id}
+      WHERE id = ${current.id} AND version = ${version} RETURNING *`;
+      if (!tag) {
+        throw modified();
+      }
+      // A tag renamed to one of its aliases no longer needs it.
+      if (new_name !== undefined) {
+        await sql`DELETE FROM tag_aliases WHERE alias = ${new_name}`;
+      }
+      return tag;
+    });
+    setETag(c, tag.version);
+    return c.json(tag);
+  },
+);
+
+app.post(
+  "/tags/:name/merge",
+  describeRoute({
+    method: "post",
+    path: "/tags/:name/merge",
+    tags: ["tags"],
+    description:
+      "Merge a tag into another one (admins only). Its ideas, pins, votes, aliases and child tags move to the other tag, the merged tag is deleted and its name becomes an alias of the other tag",
+    parameter: name_param,
+    content: {
+      "application/json": {
+        schema: resolver(mergeBody),
+      },
+    },
+    responses: {
+      200: json200(tagSchema),
+      400: problems("VALIDATION_FAILED", "TAG_MERGE_INTO_ITSELF"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("FORBIDDEN"),
+      404: problems("TAG_NOT_FOUND"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ name: z.string() })),
+  zValidator("json", mergeBody),
+  authorize("tag:merge"),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const { into: requested } = c.req.valid("json");
+    const [into = requested] = await resolveTags([requested]);
+    if (into === name) {
+      throw new ApiError("TAG_MERGE_INTO_ITSELF");
+    }
+    const tag = await sql.begin(async (sql) => {
+      await lockHierarchy(sql);
+      const tags = await sql`SELECT * FROM tags WHERE name IN (${name}, ${into}) ORDER BY id FOR UPDATE`;
+      const source = tags.find((tag) => tag.name === name);
+      const target = tags.find((tag) => tag.name === into);
+      if (!source) {
+        throw new ApiError("TAG_NOT_FOUND");
+      }
+      if (!target) {
+        throw new ApiError("TAG_NOT_FOUND", `Tag not found: ${into}`);
+      }
+      const before = await snapshot("tag", target.name, sql);
+
+      await sql`INSERT INTO ideas_tags (idea_id, tag_id)
+      SELECT idea_id, ${target.id} FROM ideas_tags WHERE tag_id = ${source.id}
+      ON CONFLICT DO NOTHING`;
+      await sql`INSERT INTO users_pinned_tags (user_id, tag_id)
+      SELECT user_id, ${target.id} FROM users_pinned_tags WHERE tag_id = ${source.id}
+      ON CONFLICT DO NOTHING`;
+      await sql`UPDATE tag_aliases SET tag_id = ${target.id} WHERE tag_id = ${source.id}`;
+      // A target below the merged tag first takes its place, so that taking
+      // over the merged tag's children cannot put it under itself.
+      if (await isAncestor(sql, source.id, target.id)) {
+        await sql`UPDATE tags SET parent_id = ${source.parent_id} WHERE id = ${target.id}`;
+      }
+      await sql`UPDATE tags SET parent_id = ${target.id} WHERE parent_id = ${source.id}`;
+      const [tag] = await sql`UPDATE tags SET
+      upvotes = upvotes + ${source.upvotes ?? 0}, downvotes = downvotes + ${source.downvotes ?? 0}
+      WHERE id = ${target.id} RETURNING *`;
+      await sql`DELETE FROM tags WHERE id = ${source.id}`;
+      // Legacy names that do not normalize to a valid, unused name get no alias.
+      const alias = tagName.safeParse(source.name);
+      if (alias.success && alias.data !== target.name) {
+        await sql`INSERT INTO tag_aliases (alias, tag_id)
+        SELECT ${alias.data}, ${target.id}
+        WHERE NOT EXISTS (SELECT 1 FROM tags WHERE name = ${alias.data})
+        ON CONFLICT (alias) DO NOTHING`;
+      }
+
+      // The merged tag's own event is recorded by auditLog, this one records
+      // what the merge did to the tag it went into.
+      await audit(
+        {
+          actor: currentUser(c),
+          action: "POST /tags/:name/merge",
+          resource_type: "tag",
+          resource_id: target.name,
+          before,
+          after: await snapshot("tag", target.name, sql),
+          request_id: c.get("requestId") ?? null,
+          ip: clientIp(c),
+        },
+        sql,
+      );
+      return tag;
+    });
+    return c.json(tag);
+  },
+);
+
+app.delete(
+  "/tags/:name",
+  describeRoute({
+    method: "delete",
+    path: "/tags/:name",
+    tags: ["tags"],
+    description: "Delete a tag that no idea or user uses (admins only)",
+    parameter: name_param,
+    responses: {
+      200: resp200,
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("FORBIDDEN"),
+      404: problems("TAG_NOT_FOUND"),
+      409: problems("TAG_IN_USE"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ name: z.string() })),
+  authorize("tag:delete"),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    await sql.begin(async (sql) => {
+      const tag = await found(sql`SELECT id FROM tags WHERE name = ${name} FOR UPDATE`, "TAG_NOT_FOUND");
+      const [usage] = await sql`SELECT
+        (SELECT COUNT(*) FROM ideas_tags WHERE tag_id = ${tag.id})::int AS ideas,
+        (SELECT COUNT(*) FROM users_pinned_tags WHERE tag_id = ${tag.id})::int AS users`;
+      if (usage && (usage.ideas > 0 || usage.users > 0)) {
+        throw new ApiError("TAG_IN_USE", `Used by ${usage.ideas} ideas and pinned by ${usage.users} users`);
+      }
+      await sql`DELETE FROM tags WHERE id = ${tag.id}`;
+    });
+    return c.body(null, 200);
+  },
+);
+
+app.get(
+  "/tags/:name/tree",
+  describeRoute({
+    method: "get",
+    path: "/tags/:name/tree",
+    tags: ["tags"],
+    description: "Get the tags filed under a tag, at any depth. Each tag comes right after its parent, siblings by name",
+    parameter: name_param,
+    responses: {
+      200: json200(z.array(subtagSchema)),
+      400: problems("VALIDATION_FAILED"),
+      404: problems("TAG_NOT_FOUND"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ name: z.string() })),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const tag = await found(sql`SELECT id FROM tags WHERE name = ${name}`, "TAG_NOT_FOUND");
+    const subtags = await sql`WITH RECURSIVE tree AS (
+        SELECT t.id, t.name, ${name}::text AS parent, 1 AS depth, ARRAY[t.name] AS path
+        FROM tags t WHERE t.parent_id = ${tag.id}
+        UNION ALL
+        SELECT t.id, t.name, tree.name, tree.depth + 1, tree.path || t.name
+        FROM tags t JOIN tree ON t.parent_id = tree.id
+      )
+      SELECT id, name, parent, depth FROM tree ORDER BY path`;
+    return c.json(subtags);
+  },
+);
+
+app.get(
+  "/tags/:name/aliases",
+  describeRoute({
+    method: "get",
+    path: "/tags/:name/aliases",
+    tags: ["tags"],
+    description: "Get the aliases of a tag",
+    parameter: name_param,
+    responses: {
+      200: json200(z.array(aliasSchema)),
+      400: problems("VALIDATION_FAILED"),
+      404: problems("TAG_NOT_FOUND"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ name: z.string() })),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const tag = await found(sql`SELECT id FROM tags WHERE name = ${name}`, "TAG_NOT_FOUND");
+    const aliases = await sql`SELECT a.alias, ${name}::text AS tag, a.created_at
+    FROM tag_aliases a WHERE a.tag_id = ${tag.id} ORDER BY a.alias`;
+    return c.json(aliases);
+  },
+);
+
+app.post(
+  "/tags/:name/aliases",
+  describeRoute({
+    method: "post",
+    path: "/tags/:name/aliases",
+    tags: ["tags"],
+    description: "Add an alias to a tag (admins only). Tag names given as input that match it resolve to the tag",
+    parameter: name_param,
+    content: {
+      "application/json": {
+        schema: resolver(aliasBody),
+      },
+    },
+    responses: {
+      201: json200(aliasSchema),
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("FORBIDDEN"),
+      404: problems("TAG_NOT_FOUND"),
+      409: problems("TAG_CONFLICT"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ name: z.string() })),
+  zValidator("json", aliasBody),
+  authorize("tag:alias"),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const { alias } = c.req.valid("json");
+    const tags = await sql`SELECT 1 FROM tags WHERE name = ${alias}`;
+    if (tags.length > 0) {
+      throw new ApiError("TAG_CONFLICT", `${alias} is a tag, merge it instead`);
     }
+    const row = await found(sql`INSERT INTO tag_aliases (alias, tag_id)
+    SELECT ${alias}, id FROM tags WHERE name = ${name}
+    RETURNING alias, ${name}::text AS tag, created_at`, "TAG_NOT_FOUND");
+    return c.json(row, 201);
+  },
+);
+
+app.delete(
+  "/tags/:name/aliases/:alias",
+  describeRoute({
+    method: "delete",
+    path: "/tags/:name/aliases/:alias",
+    tags: ["tags"],
+    description: "Remove an alias from a tag (admins only)",
+    parameters: [
+      name_param.name,
+      {
+        name: "alias",
+        in: "path",
+        required: true,
+        description: "Alias",
+        schema: resolver(z.string()),
+        example: "ml",
+      },
+    ],
+    responses: {
+      200: resp200,
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("FORBIDDEN"),
+      404: problems("TAG_NOT_FOUND", "TAG_ALIAS_NOT_FOUND"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ name: z.string(), alias: z.string() })),
+  authorize("tag:alias"),
+  async (c) => {
+    const { name, alias } = c.req.valid("param");
+    await found(sql`DELETE FROM tag_aliases a USING tags t
+    WHERE a.tag_id = t.id AND t.name = ${name} AND a.alias = ${alias}
+    RETURNING a.alias`, "TAG_ALIAS_NOT_FOUND");
     return c.body(null, 200);
   },
 );
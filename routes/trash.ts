@@ -0,0 +1,91 @@
+import { Hono } from "hono";
+import "zod-openapi/extend";
+import { z } from "zod";
+import { describeRoute } from "hono-openapi";
+import { zValidator } from "./validator.ts";
+import { sql } from "../db.ts";
+import { currentUser } from "../auth.ts";
+import { retention_days } from "../purge.ts";
+import { error500, json200, problems } from "./error.ts";
+import { pageQuery, pageSchema, page_params, paginate } from "./pagination.ts";
+
+const app = new Hono();
+
+const trashItemSchema = z.object({
+	type: z.enum(["idea", "feedback"]).openapi({
+		title: "Type",
+		example: "idea",
+	}),
+	id: z.number().openapi({
+		title: "ID",
+		description: "ID of the idea or feedback",
+		example: 1,
+	}),
+	idea_id: z.number().openapi({
+		title: "Idea ID",
+		example: 1,
+	}),
+	title: z.string().nullable().openapi({
+		title: "Title",
+		description: "Title of the idea, null for feedbacks",
+		example: "Add a dark mode",
+	}),
+	content: z.string().nullable().openapi({
+		title: "Content",
+		example: "It would be easier on the eyes at night",
+	}),
+	deleted_at: z.string().openapi({
+		title: "Deleted at",
+		example: "2025-01-01T00:00:00.000Z",
+	}),
+	purge_at: z.string().openapi({
+		title: "Purge at",
+		description: "When the item is deleted for good unless it is restored",
+		example: "2025-01-31T00:00:00.000Z",
+	}),
+});
+
+app.get(
+	"/trash",
+	describeRoute({
+		method: "get",
+		path: "/trash",
+		tags: ["trash"],
+		description:
+			"The caller's deleted ideas and feedbacks, most recently deleted first. Restore them with POST /ideas/:id/restore and POST /feedbacks/:id/restore",
+		parameters: page_params,
+		responses: {
+			200: json200(pageSchema(trashItemSchema)),
+			400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+			401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+			500: error500,
+		},
+	}),
+	zValidator("query", pageQuery),
+	async (c) => {
+		const user_id = currentUser(c);
+		const retention = sql`make_interval(days => ${retention_days})`;
+		const items = sql`SELECT
+			'idea' AS type, i.id, i.id AS idea_id, i.title, i.content,
+			i.deleted_at, i.deleted_at + ${retention} AS purge_at
+			FROM ideas i WHERE i.user_id = ${user_id} AND i.deleted_at IS NOT NULL
+			UNION ALL
+			SELECT
+			'feedback' AS type, f.id, f.idea_id, NULL AS title, f.content,
+			f.deleted_at, f.deleted_at + ${retention} AS purge_at
+			FROM feedbacks f WHERE f.user_id = ${user_id} AND f.deleted_at IS NOT NULL`;
+		return c.json(
+			await paginate(
+				items,
+				[
+					{ column: "deleted_at", direction: "desc" },
+					{ column: "type", direction: "desc" },
+					{ column: "id", direction: "desc" },
+				],
+				c.req.valid("query"),
+			),
+		);
+	},
+);
+
+export default app;
@@ -3,10 +3,17 @@ import { env } from "hono/adapter";
 import "zod-openapi/extend";
 import { z } from "zod";
 import { describeRoute } from "hono-openapi";
-import { resolver, validator as zValidator } from "hono-openapi/zod";
-import { HTTPException } from "hono/http-exception";
-import {sql, s3} from "../db.ts";
-import { error404, error500, json200, resp200 } from "./error.ts";
+import { resolver } from "hono-openapi/zod";
+import { zValidator } from "./validator.ts";
+import { ApiError } from "../errors.ts";
+import {found, sql, s3} from "../db.ts";
+import { assertSelf, currentUser } from "../auth.ts";
+import { authorize, can } from "../policy.ts";
+import { visibleIdeas } from "../access.ts";
+import { pageQuery, pageSchema, page_params, paginate } from "./pagination.ts";
+import { resolveTags, tagName } from "./tags.ts";
+import { error500, json200, problems, resp200, resp304 } from "./error.ts";
+import { expectedVersion, if_match_param, if_none_match_param, modified, notModified, setETag } from "./etag.ts";
 
 
 const app = new Hono();
@@ -59,13 +66,16 @@ app.get(
     path: "/users",
     tags: ["users"],
     description: "Get all users",
+    parameters: page_params,
     responses: {
-      200: json200(z.array(userSchemaWithPinnedTags)),
+      200: json200(pageSchema(userSchemaWithPinnedTags)),
+      400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
       500: error500,
     },
   }),
+  zValidator("query", pageQuery),
   async (c) => {
-    const rows = await sql`
+    const users = sql`
     SELECT 
       u.id,
       u.name,
@@ -79,10 +89,10 @@ app.get(
       FROM users u
       LEFT JOIN users_pinned_tags upt ON u.id = upt.user_id
       LEFT JOIN tags t ON upt.tag_id = t.id
-      GROUP BY u.id, u.name, u.email, u.role, u.image_url;
+      GROUP BY u.id, u.name, u.email, u.role, u.image_url
       `;
 
-    return c.json(rows);
+    return c.json(await paginate(users, [], c.req.valid("query")));
   },
 );
 
@@ -100,13 +110,20 @@ app.post(
     },
     responses: {
       201: json200(userSchema),
-      400: error404,
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("FORBIDDEN", "USER_MISMATCH"),
+      409: problems("USER_CONFLICT"),
       500: error500,
     },
   }),
   zValidator("json", userSchema),
   async (c) => {
     const { id, name, email, role, image_url } = c.req.valid("json");
+    const caller = assertSelf(c, id);
+    if (role !== "user" && !(await can(caller, "user:set_role"))) {
+      throw new ApiError("FORBIDDEN", "Only admins can assign roles");
+    }
     const rows = await sql`
       INSERT INTO users (id, name, email, role, image_url) 
       VALUES (${id}, ${name}, ${email}, ${role}, ${image_url}) RETURNING *`;
@@ -122,6 +139,7 @@ app.put(
     tags: ["users"],
     description: "Update an existing user",
     parameter: id_param,
+    parameters: [if_match_param],
     content: {
       "application/json": {
         schema: resolver(userSchema),
@@ -129,21 +147,37 @@ app.put(
     },
     responses: {
       200: json200(userSchema),
-      404: error404,
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("FORBIDDEN", "USER_MISMATCH"),
+      404: problems("USER_NOT_FOUND"),
+      412: problems("RESOURCE_MODIFIED"),
+      428: problems("IF_MATCH_REQUIRED"),
       500: error500,
     },
   }),
   zValidator("param", z.object({ id: z.string() })),
   zValidator("json", userSchema),
+  authorize("user:update"),
   async (c) => {
     const { id } = c.req.param();
-    const { name, email, role, image_url } = c.req.valid("json");
+    const { id: body_id, name, email, role, image_url } = c.req.valid("json");
+    const caller = currentUser(c);
+    const version = expectedVersion(c);
+    if (body_id !== id) {
+      throw new ApiError("USER_MISMATCH", "id does not match the user being updated");
+    }
+    const current = await sql`SELECT role FROM users WHERE id = ${id}`;
+    if (role !== current[0]?.role && !(await can(caller, "user:set_role"))) {
+      throw new ApiError("FORBIDDEN", "Only admins can change roles");
+    }
     const rows = await sql`
       UPDATE users SET name = ${name}, email = ${email}, role = ${role}, image_url = ${image_url} 
-      WHERE id = ${id} RETURNING *`;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "User not found" });
+      WHERE id = ${id} AND version = ${version} RETURNING *`;
+    if (!rows[0]) {
+      throw modified();
     }
+    setETag(c, rows[0].version);
     return c.json(rows[0]);
   },
 );
@@ -154,22 +188,28 @@ app.delete(
     method: "delete",
     path: "/users/:id",
     tags: ["users"],
-    description: "Delete a user",
+    description: "Delete a user. Their feedbacks that have replies stay in the threads as tombstones",
     parameter: id_param,
     responses: {
       200: resp200,
-      404: error404,
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("FORBIDDEN"),
+      404: problems("USER_NOT_FOUND"),
       500: error500,
     },
   }),
   zValidator("param", z.object({ id: z.string() })),
+  authorize("user:delete"),
   async (c) => {
     const { id } = c.req.valid("param");
-    const rows = await sql`
-      DELETE FROM users WHERE id = ${id} RETURNING *`;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "User not found" });
-    }
+    // Feedbacks others replied to lose their author and content instead of
+    // being deleted with the user, so the replies keep their place.
+    await sql`UPDATE feedbacks f SET tombstoned = TRUE, deleted_at = NULL, user_id = NULL,
+      content = '', files_url = '{}', user_tag = NULL
+      WHERE f.user_id = ${id} AND EXISTS (SELECT 1 FROM feedbacks r WHERE r.parent_id = f.id)`;
+    await found(sql`
+      DELETE FROM users WHERE id = ${id} RETURNING *`, "USER_NOT_FOUND");
     return c.body(null, 200);
   },
 );
@@ -182,22 +222,26 @@ app.get(
     tags: ["users"],
     description: "Get a user by ID",
     parameter: id_param,
+    parameters: [if_none_match_param],
     responses: {
       200: json200(userSchema),
-      404: error404,
+      304: resp304,
+      400: problems("VALIDATION_FAILED"),
+      404: problems("USER_NOT_FOUND"),
       500: error500,
     },
   }),
   zValidator("param", z.object({ id: z.string() })),
   async (c) => {
     const { id } = c.req.valid("param");
-    const rows = await sql`
+    const user = await found(sql`
       SELECT 
         u.id,
         u.name,
         u.email,
         u.role,
         u.image_url,
+        u.version,
         COALESCE(
             ARRAY_AGG(t.name),
             ARRAY[]::VARCHAR[]
@@ -207,13 +251,13 @@ app.get(
     LEFT JOIN tags t ON upt.tag_id = t.id
     WHERE u.id = ${id}
     GROUP BY u.id, u.name, u.email, u.role, u.image_url;
-      `;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "User not found" });
+      `, "USER_NOT_FOUND");
+    if (notModified(c, user.version)) {
+      return c.body(null, 304);
     }
     const transformedUser = {
-      ...rows[0],
-      pinned_tags: Object(rows[0]?.pinned_tags).items ?? [],
+      ...user,
+      pinned_tags: Object(user.pinned_tags).items ?? [],
     };
     return c.json(transformedUser);
   },
@@ -233,7 +277,7 @@ const id_tag_param = {
     in: "path",
     required: true,
     description: "Tag name",
-    schema: resolver(z.string()),
+    schema: resolver(tagName),
     example: "tag1",
   },
 };
@@ -248,14 +292,20 @@ app.post(
     parameter: id_tag_param,
     responses: {
       200: resp200,
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("USER_MISMATCH"),
+      404: problems("USER_OR_TAG_NOT_FOUND"),
       500: error500,
     },
   }),
-  zValidator("param", z.object({ user_id: z.string(), tag: z.string() })),
+  zValidator("param", z.object({ user_id: z.string(), tag: tagName })),
   async (c) => {
-    const { user_id, tag } = c.req.valid("param");
+    const { user_id, tag: requested } = c.req.valid("param");
+    assertSelf(c, user_id);
+    const [tag = requested] = await resolveTags([requested]);
 
-    const rows = await sql`
+    await found(sql`
       WITH inserted_tag AS (
         INSERT INTO tags (name) VALUES (${tag}) ON CONFLICT DO NOTHING 
         RETURNING id
@@ -270,10 +320,7 @@ app.post(
           )
       )
       RETURNING *;
-    `;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "Either user or tag not found" });
-    }
+    `, "USER_OR_TAG_NOT_FOUND");
     return c.body(null, 200);
   },
 );
@@ -288,25 +335,247 @@ app.delete(
     parameter: id_tag_param,
     responses: {
       200: resp200,
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("USER_MISMATCH"),
+      404: problems("USER_OR_TAG_NOT_FOUND"),
       500: error500,
     },
   }),
-  zValidator("param", z.object({ user_id: z.string(), tag: z.string() })),
+  zValidator("param", z.object({ user_id: z.string(), tag: tagName })),
   async (c) => {
-    const { user_id, tag } = c.req.valid("param");
-    const rows = await sql`
+    const { user_id, tag: requested } = c.req.valid("param");
+    assertSelf(c, user_id);
+    const [tag = requested] = await resolveTags([requested]);
+    await found(sql`
       DELETE FROM users_pinned_tags 
       WHERE user_id = ${user_id} AND 
       tag_id = (SELECT id FROM tags WHERE name = ${tag} LIMIT 1)
       RETURNING *;
-    `;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "Either user or tag not found" });
+    `, "USER_OR_TAG_NOT_FOUND");
+    return c.body(null, 200);
+  },
+);
+
+app.post(
+  "/users/:id/follow",
+  describeRoute({
+    method: "post",
+    path: "/users/:id/follow",
+    tags: ["users"],
+    description: "Follow a user, their ideas show up in the caller's feed",
+    parameter: id_param,
+    responses: {
+      200: resp200,
+      400: problems("VALIDATION_FAILED", "CANNOT_FOLLOW_SELF"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      404: problems("USER_NOT_FOUND"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ id: z.string() })),
+  async (c) => {
+    const { id } = c.req.valid("param");
+    const follower = currentUser(c);
+    if (id === follower) {
+      throw new ApiError("CANNOT_FOLLOW_SELF");
     }
+    await found(sql`SELECT id FROM users WHERE id = ${id}`, "USER_NOT_FOUND");
+    await sql`INSERT INTO user_follows (follower_id, followee_id)
+    VALUES (${follower}, ${id}) ON CONFLICT DO NOTHING`;
     return c.body(null, 200);
   },
 );
 
+app.delete(
+  "/users/:id/follow",
+  describeRoute({
+    method: "delete",
+    path: "/users/:id/follow",
+    tags: ["users"],
+    description: "Stop following a user",
+    parameter: id_param,
+    responses: {
+      200: resp200,
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      404: problems("FOLLOW_NOT_FOUND"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ id: z.string() })),
+  async (c) => {
+    const { id } = c.req.valid("param");
+    await found(sql`DELETE FROM user_follows
+    WHERE follower_id = ${currentUser(c)} AND followee_id = ${id}
+    RETURNING followee_id`, "FOLLOW_NOT_FOUND");
+    return c.body(null, 200);
+  },
+);
+
+const feedItemSchema = z.object({
+  id: z.number().openapi({
+    title: "ID",
+    example: 1,
+  }),
+  title: z.string().openapi({
+    title: "Title",
+    example: "Add a dark mode",
+  }),
+  content: z.string().openapi({
+    title: "Content",
+    example: "It would be easier on the eyes at night",
+  }),
+  user_id: z.string().openapi({
+    title: "User ID",
+    example: "2",
+  }),
+  tags: z.array(z.string()).openapi({
+    title: "Tags",
+    example: ["ui", "accessibility"],
+  }),
+  access: z.string().openapi({
+    title: "Access",
+    example: "public",
+  }),
+  upvotes: z.number().openapi({
+    title: "Upvotes",
+    example: 10,
+  }),
+  downvotes: z.number().openapi({
+    title: "Downvotes",
+    example: 2,
+  }),
+  created_at: z.string().openapi({
+    title: "Created at",
+    example: "2025-01-01T00:00:00.000Z",
+  }),
+  pinned_tags: z.array(z.string()).openapi({
+    title: "Pinned tags",
+    description: "Pinned tags of the user the idea has, or has a tag filed under",
+    example: ["ui"],
+  }),
+  followed_author: z.boolean().openapi({
+    title: "Followed author",
+    description: "Whether the user follows the author",
+    example: false,
+  }),
+  group: z.boolean().openapi({
+    title: "Group",
+    description: "Whether the idea is shared with a group the user belongs to",
+    example: false,
+  }),
+  score: z.number().openapi({
+    title: "Score",
+    description: "upvotes - downvotes",
+    example: 8,
+  }),
+  rank: z.number().openapi({
+    title: "Rank",
+    description: "The feed is ordered by it, see GET /users/:id/feed",
+    example: 40552.7,
+  }),
+});
+
+const exclude_voted = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((value) => value === "true")
+  .openapi({
+    title: "Exclude voted",
+    description: "Leave out ideas the user has voted on",
+    example: "true",
+  });
+
+app.get(
+  "/users/:id/feed",
+  describeRoute({
+    method: "get",
+    path: "/users/:id/feed",
+    tags: ["users"],
+    description:
+      "The user's feed (only for themselves): ideas by others with one of their pinned tags (or a tag filed under one), by authors they follow or shared with their groups. " +
+      "Ranked by half days since the epoch at creation, plus one for each matched pinned tag, followed author and group, " +
+      "plus the score decayed with the idea's age like the hot sort of GET /ideas. The age is taken at the first page, so ranks don't drift between pages",
+    parameter: id_param,
+    parameters: [
+      {
+        name: "exclude_voted",
+        in: "query",
+        required: false,
+        description: "Leave out ideas the user has voted on",
+        schema: resolver(z.enum(["true", "false"])),
+      },
+      ...page_params,
+    ],
+    responses: {
+      200: json200(pageSchema(feedItemSchema)),
+      400: problems("VALIDATION_FAILED", "INVALID_CURSOR"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("USER_MISMATCH"),
+      500: error500,
+    },
+  }),
+  zValidator("param", z.object({ id: z.string() })),
+  zValidator("query", pageQuery.extend({ exclude_voted })),
+  async (c) => {
+    const { id } = c.req.valid("param");
+    const { exclude_voted, ...page } = c.req.valid("query");
+    assertSelf(c, id);
+    const voted = exclude_voted
+      ? sql`AND NOT EXISTS (SELECT 1 FROM idea_votes v WHERE v.idea_id = i.id AND v.user_id = ${id})`
+      : sql``;
+    // `pinned` holds the user's pinned tags and the tags filed under them,
+    // each named after the pinned tag it counts for. `matched` gathers the
+    // ideas reached through a pinned tag, a followed author or a group, so
+    // only those are ranked. Like the hot sort of GET /ideas, the score is
+    // decayed against the cursor's time rather than now().
+    const ideas = (as_of: Date) => sql`WITH RECURSIVE pinned AS (
+        SELECT t.id, t.name FROM users_pinned_tags upt
+        JOIN tags t ON t.id = upt.tag_id
+        WHERE upt.user_id = ${id}
+        UNION
+        SELECT t.id, p.name FROM tags t JOIN pinned p ON t.parent_id = p.id
+      ), matched AS (
+        SELECT it.idea_id AS id FROM ideas_tags it JOIN pinned p ON p.id = it.tag_id
+        UNION
+        SELECT i.id FROM user_follows f JOIN ideas i ON i.user_id = f.followee_id
+        WHERE f.follower_id = ${id}
+        UNION
+        SELECT i.id FROM user_groups_members m JOIN ideas i ON i.access = 'group:' || m.group_id
+        WHERE m.user_id = ${id}
+      ), candidates AS (
+        SELECT i.id, i.title, i.content, i.user_id, i.access, i.upvotes, i.downvotes, i.created_at,
+          ARRAY(
+            SELECT DISTINCT p.name FROM ideas_tags it JOIN pinned p ON p.id = it.tag_id
+            WHERE it.idea_id = i.id ORDER BY p.name
+          ) AS pinned_tags,
+          EXISTS (
+            SELECT 1 FROM user_follows f WHERE f.follower_id = ${id} AND f.followee_id = i.user_id
+          ) AS followed_author,
+          (i.access LIKE 'group:%' AND EXISTS (
+            SELECT 1 FROM user_groups_members m
+            WHERE i.access = 'group:' || m.group_id AND m.user_id = ${id}
+          )) AS "group"
+        FROM matched JOIN ideas i ON i.id = matched.id
+        WHERE i.user_id IS DISTINCT FROM ${id} AND ${visibleIdeas(id)}
+        ${voted}
+      )
+      SELECT c.*,
+        ARRAY(
+          SELECT t.name FROM ideas_tags it JOIN tags t ON t.id = it.tag_id
+          WHERE it.idea_id = c.id ORDER BY t.name
+        ) AS tags,
+        COALESCE(c.upvotes, 0) - COALESCE(c.downvotes, 0) AS score,
+        (COALESCE(EXTRACT(EPOCH FROM c.created_at) / 43200, 0)
+          + cardinality(c.pinned_tags) + c.followed_author::int + c."group"::int
+          + COALESCE((COALESCE(c.upvotes, 0) - COALESCE(c.downvotes, 0))
+            / POWER(GREATEST(EXTRACT(EPOCH FROM ${as_of}::timestamptz - c.created_at), 0) / 3600 + 2, 1.5), 0))::float8 AS rank
+      FROM candidates c`;
+    return c.json(await paginate(ideas, [{ column: "rank", direction: "desc" }], page));
+  },
+);
+
 app.post(
   "users/:id",
   describeRoute({
@@ -332,13 +601,17 @@ app.post(
           example: "Image updated"
         }),
       })),
-      404: error404,
+      400: problems("VALIDATION_FAILED"),
+      401: problems("AUTHENTICATION_REQUIRED", "INVALID_TOKEN"),
+      403: problems("USER_MISMATCH"),
+      404: problems("USER_NOT_FOUND"),
       500: error500,
     },
   }),
   zValidator("param", z.object({ id: z.string() })),
   async (c) => {
     const { id } = c.req.valid("param");
+    assertSelf(c, id);
     const body = await c.req.parseBody();
     const image_file = body.image as File;
     const { AWS_BUCKET_NAME } = env<{ AWS_BUCKET_NAME: string}>(c);
@@ -350,16 +623,14 @@ app.post(
     }
     
     // https://feedback.fly.storage.tigris.dev/1_wallpaperflare.com_wallpaper.jpg
-    const image = s3.file(`${id}_${image_file.name}`)
+    // Profile images are public, unlike idea files.
+    const image = s3.file(`${id}_${image_file.name}`, { acl: "public-read" })
 
     await image.write(await image_file.arrayBuffer());
     const image_url = `https://${AWS_BUCKET_NAME}.fly.storage.tigris.dev/${id}_${image_file.name}`;
-    const rows = await sql`
+    await found(sql`
       UPDATE users SET image_url = ${image_url} WHERE id = ${id} RETURNING *;
-    `;
-    if (rows.length === 0) {
-      throw new HTTPException(404, { message: "User not found" });
-    }
+    `, "USER_NOT_FOUND");
     return c.json({ message: "Image updated" });
   },
 
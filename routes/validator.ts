@@ -0,0 +1,7 @@
+import { validator } from "hono-openapi/zod";
+import { invalid } from "../errors.ts";
+
+// hono-openapi's validator, answering invalid requests with a
+// VALIDATION_FAILED problem instead of the raw zod result.
+export const zValidator = ((target, schema, hook) =>
+	validator(target, schema, hook ?? invalid)) as typeof validator;
@@ -0,0 +1,104 @@
+import { database } from "./env.ts";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mintToken } from "../auth.ts";
+import { sql } from "../db.ts";
+import server from "../main.ts";
+import { up } from "../migrate.ts";
+
+// Who sees which ideas and their feedbacks: everyone the public ones, their
+// authors the private ones and the members of a group the ones shared with
+// it. Anything else, and anything in the trash, looks missing. Needs a
+// database in PGURL, which gets migrated and keeps these users, their group
+// and ideas while the tests run.
+
+const [author, member, outsider] = [
+	"access-test-author",
+	"access-test-member",
+	"access-test-outsider",
+];
+const ideas: Record<"open" | "secret" | "shared" | "trashed", number> = {
+	open: 0,
+	secret: 0,
+	shared: 0,
+	trashed: 0,
+};
+
+async function call(user: string | null, path: string) {
+	return await server.fetch(
+		new Request(`http://localhost${path}`, {
+			headers: user ? { Authorization: `Bearer ${await mintToken(user)}` } : {},
+		}),
+	);
+}
+
+// Ids of the test ideas a listing returns.
+async function listed(user: string | null, path: string) {
+	const response = await call(user, path);
+	expect(response.status).toBe(200);
+	const body = (await response.json()) as { items: { id: number }[] };
+	const ids = new Set(Object.values(ideas));
+	return body.items.map((item) => item.id).filter((id) => ids.has(id)).sort();
+}
+
+describe.skipIf(!database)("idea access", () => {
+	beforeAll(async () => {
+		await up();
+		for (const id of [author, member, outsider]) {
+			await sql`INSERT INTO users (id, name, email, role, image_url)
+				VALUES (${id}, 'Test', 'test@example.com', 'user', '') ON CONFLICT (id) DO NOTHING`;
+		}
+		const [group] = await sql`INSERT INTO user_groups (title, description) VALUES ('access test', '') RETURNING id`;
+		await sql`INSERT INTO user_groups_members (group_id, user_id, role)
+			VALUES (${group?.id}, ${author}, 'owner'), (${group?.id}, ${member}, 'member')`;
+		const access = {
+			open: "public",
+			secret: `private:${author}`,
+			shared: `group:${group?.id}`,
+			trashed: "public",
+		};
+		for (const [name, value] of Object.entries(access)) {
+			const [idea] = await sql`INSERT INTO ideas (title, content, user_id, access)
+				VALUES (${name}, '', ${author}, ${value}) RETURNING id`;
+			ideas[name as keyof typeof ideas] = idea?.id;
+			await sql`INSERT INTO feedbacks (idea_id, user_id, content) VALUES (${idea?.id}, ${author}, 'feedback')`;
+		}
+		await sql`UPDATE ideas SET deleted_at = now() WHERE id = ${ideas.trashed}`;
+	});
+
+	afterAll(async () => {
+		await sql`DELETE FROM user_groups WHERE title = 'access test'`;
+		await sql`DELETE FROM users WHERE id IN (${author}, ${member}, ${outsider})`;
+	});
+
+	test("listings only hold the ideas the caller can see", async () => {
+		expect(await listed(null, `/ideas/user/${author}`)).toEqual([ideas.open]);
+		expect(await listed(outsider, `/ideas/user/${author}`)).toEqual([ideas.open]);
+		expect(await listed(member, `/ideas/user/${author}`)).toEqual([ideas.open, ideas.shared].sort());
+		expect(await listed(author, `/ideas/user/${author}`)).toEqual(
+			[ideas.open, ideas.secret, ideas.shared].sort(),
+		);
+	});
+
+	test("ideas the caller can't see are missing", async () => {
+		for (const [user, id, status] of [
+			[null, ideas.secret, 404],
+			[outsider, ideas.shared, 404],
+			[member, ideas.secret, 404],
+			[member, ideas.shared, 200],
+			[author, ideas.secret, 200],
+			[author, ideas.trashed, 404],
+		] as const) {
+			const response = await call(user, `/ideas/${id}`);
+			expect([user, id, response.status]).toEqual([user, id, status]);
+		}
+	});
+
+	test("so are their feedbacks", async () => {
+		expect((await call(outsider, `/ideas/${ideas.secret}/feedbacks`)).status).toBe(404);
+		expect((await call(outsider, `/ideas/${ideas.shared}/feedbacks`)).status).toBe(404);
+		expect((await call(member, `/ideas/${ideas.shared}/feedbacks`)).status).toBe(200);
+		const [feedback] = await sql`SELECT id FROM feedbacks WHERE idea_id = ${ideas.secret}`;
+		expect((await call(outsider, `/feedbacks/${feedback?.id}`)).status).toBe(404);
+		expect((await call(author, `/feedbacks/${feedback?.id}`)).status).toBe(200);
+	});
+});
@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Hono } from "hono";
+import { Jwt } from "hono/utils/jwt";
+import type { HonoJsonWebKey } from "hono/utils/jwt/jws";
+import { currentUser, identity, mintToken, readJwks } from "../auth.ts";
+
+// Calls a route that needs a caller with tokens minted here, HS256 ones with
+// mintToken and RS256 ones signed with a key pair whose public half is
+// written to a JWKS file. Needs no database.
+
+process.env.JWT_SECRET ??= "auth-test-secret";
+
+let dir = "";
+let private_key: HonoJsonWebKey = {};
+let app = new Hono();
+
+beforeAll(async () => {
+	dir = await mkdtemp(join(tmpdir(), "auth-test-"));
+	const pair = generateKeyPairSync("rsa", { modulusLength: 2048 });
+	// The alg is what makes Jwt.sign put the kid in the header.
+	private_key = {
+		...pair.privateKey.export({ format: "jwk" }),
+		alg: "RS256",
+	} as HonoJsonWebKey;
+	const public_key = pair.publicKey.export({ format: "jwk" });
+	await writeFile(
+		join(dir, "jwks.json"),
+		JSON.stringify({ keys: [{ ...public_key, kid: "test", alg: "RS256" }] }),
+	);
+
+	app = new Hono();
+	app.use(identity(await readJwks(join(dir, "jwks.json"))));
+	app.get("/me", (c) => c.json({ user_id: currentUser(c) }));
+});
+
+afterAll(async () => {
+	await rm(dir, { recursive: true, force: true });
+});
+
+async function me(token?: string) {
+	return await app.fetch(
+		new Request("http://localhost/me", {
+			headers: token ? { Authorization: `Bearer ${token}` } : {},
+		}),
+	);
+}
+
+const rs256 = (payload: Record<string, unknown>, kid = "test") =>
+	Jwt.sign(payload, { ...private_key, kid }, "RS256");
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("identity", () => {
+	test("a minted token authenticates its user", async () => {
+		const response = await me(await mintToken("alice"));
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ user_id: "alice" });
+	});
+
+	test("no token is rejected by routes that need a caller", async () => {
+		expect((await me()).status).toBe(401);
+	});
+
+	test("an expired token is rejected", async () => {
+		expect((await me(await mintToken("alice", -60))).status).toBe(401);
+	});
+
+	test("a token signed with another secret is rejected", async () => {
+		const token = await Jwt.sign({ sub: "alice" }, "another-secret", "HS256");
+		expect((await me(token)).status).toBe(401);
+	});
+
+	test("an RS256 token signed by a JWKS key authenticates its user", async () => {
+		const response = await me(
+			await rs256({ sub: "bob", iat: now(), exp: now() + 60 }),
+		);
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ user_id: "bob" });
+	});
+
+	test("an RS256 token with an unknown kid is rejected", async () => {
+		const token = await rs256({ sub: "bob", exp: now() + 60 }, "other");
+		expect((await me(token)).status).toBe(401);
+	});
+
+	test("a token without a subject is rejected", async () => {
+		expect((await me(await rs256({ exp: now() + 60 }))).status).toBe(401);
+	});
+});
+
+describe("readJwks", () => {
+	test("fails on a missing file", async () => {
+		await expect(readJwks(join(dir, "missing.json"))).rejects.toThrow(
+			"Could not read the JWKS file",
+		);
+	});
+
+	test("fails on a file that isn't JSON", async () => {
+		await writeFile(join(dir, "broken.json"), "{");
+		await expect(readJwks(join(dir, "broken.json"))).rejects.toThrow(
+			"Could not read the JWKS file",
+		);
+	});
+
+	test("fails on keys without a kid", async () => {
+		await writeFile(
+			join(dir, "no-kid.json"),
+			JSON.stringify({ keys: [{ kty: "RSA", n: "AQAB", e: "AQAB" }] }),
+		);
+		await expect(readJwks(join(dir, "no-kid.json"))).rejects.toThrow('"kid"');
+	});
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { type DiffLine, diffLines } from "../diff.ts";
+
+// The text a diff leads to, its equal and inserted lines, and the one it
+// starts from, its equal and deleted lines.
+const applied = (diff: DiffLine[]) =>
+	diff.filter((line) => line.op !== "delete").map((line) => line.line);
+const reverted = (diff: DiffLine[]) =>
+	diff.filter((line) => line.op !== "insert").map((line) => line.line);
+
+describe("diffLines", () => {
+	test("equal texts are all equal lines", () => {
+		expect(diffLines("a\nb", "a\nb")).toEqual([
+			{ op: "equal", line: "a" },
+			{ op: "equal", line: "b" },
+		]);
+	});
+
+	test("empty texts have no lines", () => {
+		expect(diffLines("", "")).toEqual([]);
+		expect(diffLines("", "a")).toEqual([{ op: "insert", line: "a" }]);
+		expect(diffLines("a", "")).toEqual([{ op: "delete", line: "a" }]);
+	});
+
+	test("an edited line is deleted and inserted between equal ones", () => {
+		expect(diffLines("one\ntwo\nthree", "one\n2\nthree")).toEqual([
+			{ op: "equal", line: "one" },
+			{ op: "delete", line: "two" },
+			{ op: "insert", line: "2" },
+			{ op: "equal", line: "three" },
+		]);
+	});
+
+	test("lines kept in the middle of an edit stay equal", () => {
+		const diff = diffLines("a\nx\nb\ny\nc", "a\nb\nz\nc");
+		expect(diff.filter((line) => line.op === "equal").map((line) => line.line)).toEqual(["a", "b", "c"]);
+		expect(reverted(diff)).toEqual(["a", "x", "b", "y", "c"]);
+		expect(applied(diff)).toEqual(["a", "b", "z", "c"]);
+	});
+
+	test("edits too big for the LCS table are replaced wholesale", () => {
+		const a = Array.from({ length: 2100 }, (_, i) => `a${i}`);
+		const b = Array.from({ length: 2100 }, (_, i) => `b${i}`);
+		const diff = diffLines(["same", ...a, "end"].join("\n"), ["same", ...b, "end"].join("\n"));
+		expect(diff[0]).toEqual({ op: "equal", line: "same" });
+		expect(diff.at(-1)).toEqual({ op: "equal", line: "end" });
+		expect(diff.filter((line) => line.op === "delete")).toHaveLength(2100);
+		expect(applied(diff)).toEqual(["same", ...b, "end"]);
+	});
+});
@@ -0,0 +1,13 @@
+// db.ts refuses to load without its settings, which every route module
+// imports through it. Tests that query the database need a real PGURL and
+// are skipped without one; the rest only need these placeholders to import
+// what they test, and never connect.
+export const database = process.env.PGURL !== undefined;
+
+process.env.PGURL ??= "postgres://localhost/unused";
+process.env.AWS_ACCESS_KEY_ID ??= "unused";
+process.env.AWS_SECRET_ACCESS_KEY ??= "unused";
+process.env.AWS_BUCKET_NAME ??= "unused";
+process.env.AWS_REGION ??= "unused";
+process.env.AWS_ENDPOINT_URL ??= "http://localhost";
+process.env.JWT_SECRET ??= "test-secret";
@@ -0,0 +1,175 @@
+import { database } from "./env.ts";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mintToken } from "../auth.ts";
+import { sql } from "../db.ts";
+import server from "../main.ts";
+import { up } from "../migrate.ts";
+
+// Every route that acts on one resource answers a missing one with a 404 and
+// the resource's own problem code. Needs a database in PGURL, which gets
+// migrated and keeps a single admin user and tag while the tests run, and is
+// skipped without one.
+
+const caller = "not-found-test";
+const missing = 2147483647;
+
+let token = "";
+
+beforeAll(async () => {
+	if (!database) {
+		return;
+	}
+	await up();
+	await sql`INSERT INTO users (id, name, email, role, image_url)
+		VALUES (${caller}, 'Test', 'test@example.com', 'admin', '')
+		ON CONFLICT (id) DO NOTHING`;
+	await sql`INSERT INTO tags (name) VALUES (${caller}) ON CONFLICT (name) DO NOTHING`;
+	token = await mintToken(caller);
+});
+
+afterAll(async () => {
+	if (!database) {
+		return;
+	}
+	await sql`DELETE FROM tags WHERE name = ${caller}`;
+	await sql`DELETE FROM users WHERE id = ${caller}`;
+});
+
+type Case = [method: string, path: string, code: string, body?: unknown];
+
+async function call(method: string, path: string, body?: unknown) {
+	const headers: Record<string, string> = {
+		Authorization: `Bearer ${token}`,
+		"If-Match": '"1"',
+	};
+	if (body !== undefined) {
+		headers["Content-Type"] = "application/json";
+	}
+	return await server.fetch(
+		new Request(`http://localhost${path}`, {
+			method,
+			headers,
+			body: body === undefined ? undefined : JSON.stringify(body),
+		}),
+	);
+}
+
+function expectNotFound(cases: Case[]) {
+	for (const [method, path, code, body] of cases) {
+		test.skipIf(!database)(`${method} ${path}`, async () => {
+			const response = await call(method, path, body);
+			expect(response.status).toBe(404);
+			expect(response.headers.get("Content-Type")).toBe(
+				"application/problem+json",
+			);
+			expect(((await response.json()) as { code: string }).code).toBe(code);
+		});
+	}
+}
+
+describe("ideas", () => {
+	expectNotFound([
+		["GET", `/ideas/${missing}`, "IDEA_NOT_FOUND"],
+		["PATCH", `/ideas/${missing}`, "IDEA_NOT_FOUND", { title: "t" }],
+		["DELETE", `/ideas/${missing}`, "IDEA_NOT_FOUND"],
+		["POST", `/ideas/${missing}/restore`, "IDEA_NOT_FOUND"],
+		["GET", `/ideas/${missing}/revisions`, "IDEA_NOT_FOUND"],
+		["GET", `/ideas/${missing}/revisions/1/diff`, "IDEA_NOT_FOUND"],
+		["POST", `/ideas/up/${missing}`, "IDEA_NOT_FOUND"],
+		["DELETE", `/ideas/up/${missing}`, "IDEA_NOT_FOUND"],
+		["POST", `/ideas/down/${missing}`, "IDEA_NOT_FOUND"],
+		["DELETE", `/ideas/down/${missing}`, "IDEA_NOT_FOUND"],
+		["POST", `/ideas/hide/${missing}`, "IDEA_NOT_FOUND"],
+		["DELETE", `/ideas/hide/${missing}`, "IDEA_NOT_FOUND"],
+		["GET", `/ideas/file/${missing}/a.png`, "FILE_NOT_FOUND"],
+		["DELETE", `/ideas/file/${missing}`, "IDEA_NOT_FOUND", { files_url: [] }],
+		["POST", `/ideas/${missing}/tag1`, "IDEA_NOT_FOUND"],
+		["DELETE", `/ideas/${missing}/tag1`, "IDEA_NOT_FOUND"],
+		["GET", `/ideas/${missing}/feedbacks`, "IDEA_NOT_FOUND"],
+	]);
+});
+
+describe("feedbacks", () => {
+	expectNotFound([
+		["GET", `/feedbacks/${missing}`, "FEEDBACK_NOT_FOUND"],
+		["GET", `/feedbacks/${missing}/thread`, "FEEDBACK_NOT_FOUND"],
+		["PUT", `/feedbacks/${missing}`, "FEEDBACK_NOT_FOUND", { content: "c" }],
+		["DELETE", `/feedbacks/${missing}`, "FEEDBACK_NOT_FOUND"],
+		["POST", `/feedbacks/${missing}/restore`, "FEEDBACK_NOT_FOUND"],
+		["POST", `/feedbacks/up/${missing}`, "FEEDBACK_NOT_FOUND"],
+		["DELETE", `/feedbacks/up/${missing}`, "FEEDBACK_NOT_FOUND"],
+		["POST", `/feedbacks/down/${missing}`, "FEEDBACK_NOT_FOUND"],
+		["DELETE", `/feedbacks/down/${missing}`, "FEEDBACK_NOT_FOUND"],
+		["POST", `/feedbacks/hide/${missing}`, "FEEDBACK_NOT_FOUND"],
+		["DELETE", `/feedbacks/hide/${missing}`, "FEEDBACK_NOT_FOUND"],
+	]);
+});
+
+describe("groups", () => {
+	expectNotFound([
+		["GET", `/groups/${missing}`, "GROUP_NOT_FOUND"],
+		[
+			"PUT",
+			`/groups/${missing}`,
+			"GROUP_NOT_FOUND",
+			{ title: "t", description: "d" },
+		],
+		["DELETE", `/groups/${missing}`, "GROUP_NOT_FOUND"],
+		["DELETE", `/groups/${missing}/someone`, "GROUP_NOT_FOUND"],
+		["DELETE", `/groups/${missing}/${caller}`, "MEMBER_NOT_FOUND"],
+		["PUT", `/groups/${missing}/owner`, "GROUP_NOT_FOUND", { user_id: caller }],
+		["GET", `/groups/${missing}/members`, "GROUP_NOT_FOUND"],
+		["POST", `/groups/${missing}/invitations`, "GROUP_NOT_FOUND", {}],
+		["GET", `/groups/${missing}/invitations`, "GROUP_NOT_FOUND"],
+		["GET", "/groups/invitations/missing", "INVITATION_NOT_FOUND"],
+		["POST", "/groups/invitations/missing/accept", "INVITATION_NOT_FOUND"],
+		["POST", "/groups/invitations/missing/decline", "INVITATION_NOT_FOUND"],
+		["POST", "/groups/invitations/missing/revoke", "INVITATION_NOT_FOUND"],
+		["POST", `/groups/${missing}/requests`, "GROUP_NOT_FOUND", {}],
+		["GET", `/groups/${missing}/requests`, "GROUP_NOT_FOUND"],
+		["POST", `/groups/requests/${missing}/approve`, "JOIN_REQUEST_NOT_FOUND"],
+		["POST", `/groups/requests/${missing}/reject`, "JOIN_REQUEST_NOT_FOUND"],
+		["POST", `/groups/requests/${missing}/cancel`, "JOIN_REQUEST_NOT_FOUND"],
+	]);
+});
+
+describe("tags", () => {
+	expectNotFound([
+		["GET", "/tags/missing", "TAG_NOT_FOUND"],
+		["PATCH", "/tags/missing", "TAG_NOT_FOUND", { name: "other" }],
+		["DELETE", "/tags/missing", "TAG_NOT_FOUND"],
+		["POST", "/tags/up/missing", "TAG_NOT_FOUND"],
+		["DELETE", "/tags/up/missing", "TAG_NOT_FOUND"],
+		["POST", "/tags/down/missing", "TAG_NOT_FOUND"],
+		["DELETE", "/tags/down/missing", "TAG_NOT_FOUND"],
+		["POST", "/tags/missing/merge", "TAG_NOT_FOUND", { into: "other" }],
+		["GET", "/tags/missing/tree", "TAG_NOT_FOUND"],
+		["GET", "/tags/missing/aliases", "TAG_NOT_FOUND"],
+		["POST", "/tags/missing/aliases", "TAG_NOT_FOUND", { alias: "other" }],
+		["DELETE", "/tags/missing/aliases/other", "TAG_NOT_FOUND"],
+		["DELETE", `/tags/${caller}/aliases/other`, "TAG_ALIAS_NOT_FOUND"],
+	]);
+});
+
+describe("users", () => {
+	expectNotFound([
+		["GET", "/users/missing", "USER_NOT_FOUND"],
+		[
+			"PUT",
+			"/users/missing",
+			"USER_NOT_FOUND",
+			{
+				id: "missing",
+				name: "n",
+				email: "n@example.com",
+				role: "user",
+				image_url: "",
+			},
+		],
+		["DELETE", "/users/missing", "USER_NOT_FOUND"],
+		["GET", "/users/missing/groups", "USER_NOT_FOUND"],
+		["POST", "/users/missing/follow", "USER_NOT_FOUND"],
+		["DELETE", "/users/missing/follow", "FOLLOW_NOT_FOUND"],
+		["DELETE", `/user/${caller}/missing`, "USER_OR_TAG_NOT_FOUND"],
+	]);
+});
@@ -0,0 +1,111 @@
+import { database } from "./env.ts";
+import { describe, expect, test } from "bun:test";
+import { sql } from "../db.ts";
+import { ApiError } from "../errors.ts";
+import {
+	decodeAsOf,
+	decodeCursor,
+	encodeCursor,
+	paginate,
+} from "../routes/pagination.ts";
+
+const invalidCursor = (decode: () => unknown) => {
+	try {
+		decode();
+	} catch (error) {
+		return error instanceof ApiError && error.code === "INVALID_CURSOR";
+	}
+	return false;
+};
+
+describe("cursors", () => {
+	test("decode to the values they were encoded from", () => {
+		const values = ["2025-01-01T00:00:00.123456", null, 12];
+		expect(decodeCursor(encodeCursor(JSON.stringify(values)), 3)).toEqual(values);
+	});
+
+	test("are rejected when they hold another number of values", () => {
+		expect(invalidCursor(() => decodeCursor(encodeCursor("[1, 2]"), 3))).toBe(true);
+	});
+
+	test("are rejected when they aren't a JSON array", () => {
+		for (const cursor of ["not a cursor", encodeCursor('{"a": 1}'), encodeCursor("1")]) {
+			expect(invalidCursor(() => decodeCursor(cursor, 1))).toBe(true);
+		}
+	});
+
+	test("carry the time a page is computed at", () => {
+		expect(decodeAsOf("2025-01-01T00:00:00Z").toISOString()).toBe("2025-01-01T00:00:00.000Z");
+		for (const value of ["yesterday", 1735689600, null]) {
+			expect(invalidCursor(() => decodeAsOf(value))).toBe(true);
+		}
+	});
+});
+
+// Needs a database in PGURL, the rows are literals.
+describe.skipIf(!database)("paginate", () => {
+	const rows = () => sql`SELECT * FROM (VALUES
+		(1, 3, '2025-01-01 00:00:00.000001'::timestamp),
+		(2, NULL, '2025-01-01 00:00:00.000002'::timestamp),
+		(3, 1, '2025-01-01 00:00:00.000002'::timestamp),
+		(4, 3, NULL),
+		(5, NULL, '2025-01-01 00:00:00.000003'::timestamp)
+	) AS r(id, n, at)`;
+
+	// Every page of the listing, followed through its cursors.
+	async function pages(...args: Parameters<typeof paginate>) {
+		const [base, keys, page, tiebreaker] = args;
+		const ids: number[][] = [];
+		let cursor: string | undefined;
+		do {
+			const result = await paginate(base, keys, { ...page, cursor }, tiebreaker);
+			ids.push(result.items.map((item) => item.id));
+			cursor = result.next_cursor ?? undefined;
+		} while (cursor);
+		return ids;
+	}
+
+	test("orders by the keys then the tiebreaker, NULLs last", async () => {
+		// The tiebreaker runs in the direction of the first key.
+		expect(await pages(rows(), [{ column: "n", direction: "desc" }], { limit: 2, total: false })).toEqual([
+			[4, 1],
+			[3, 5],
+			[2],
+		]);
+		expect(await pages(rows(), [{ column: "n", direction: "asc" }], { limit: 2, total: false })).toEqual([
+			[3, 1],
+			[4, 2],
+			[5],
+		]);
+	});
+
+	test("keeps microseconds of timestamps in the cursor", async () => {
+		expect(await pages(rows(), [{ column: "at", direction: "asc" }], { limit: 1, total: false })).toEqual([
+			[1],
+			[2],
+			[3],
+			[5],
+			[4],
+		]);
+	});
+
+	test("counts every matching row when asked", async () => {
+		const result = await paginate(rows(), [{ column: "id", direction: "asc" }], { limit: 2, total: true });
+		expect(result.total).toBe(5);
+		expect(result.next_cursor).not.toBeNull();
+	});
+
+	test("computes time dependent values at the first page's time", async () => {
+		const times = new Set<string>();
+		const timed = (as_of: Date) => {
+			times.add(as_of.toISOString());
+			return rows();
+		};
+		expect(await pages(timed, [{ column: "id", direction: "asc" }], { limit: 2, total: false })).toEqual([
+			[1, 2],
+			[3, 4],
+			[5],
+		]);
+		expect(times.size).toBe(1);
+	});
+});
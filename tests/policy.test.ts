@@ -0,0 +1,65 @@
+import { database } from "./env.ts";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { sql } from "../db.ts";
+import { up } from "../migrate.ts";
+import { type Action, allows, can, policy } from "../policy.ts";
+
+describe("allows", () => {
+	test("owners only where the rule allows them", () => {
+		expect(allows("idea:update", "user", true)).toBe(true);
+		expect(allows("idea:update", "user", false)).toBe(false);
+		expect(allows("idea:hide", "user", true)).toBe(false);
+		expect(allows("tag:merge", "user", true)).toBe(false);
+	});
+
+	test("the roles listed whether they own the resource or not", () => {
+		expect(allows("idea:hide", "moderator", false)).toBe(true);
+		expect(allows("idea:delete", "admin", false)).toBe(true);
+		expect(allows("idea:delete", "moderator", false)).toBe(false);
+		expect(allows("user:set_role", "admin", false)).toBe(true);
+	});
+
+	test("idea edits only to their authors, even for admins", () => {
+		expect(allows("idea:update", "admin", false)).toBe(false);
+		expect(allows("feedback:update", "admin", false)).toBe(false);
+	});
+
+	test("nothing to plain users beyond their own resources", () => {
+		for (const action of Object.keys(policy) as Action[]) {
+			expect(allows(action, "user", false)).toBe(false);
+		}
+	});
+});
+
+// Needs a database in PGURL for the callers' roles, which gets migrated and
+// keeps these users while the tests run.
+describe.skipIf(!database)("can", () => {
+	const users = ["policy-test-user", "policy-test-admin"];
+
+	beforeAll(async () => {
+		await up();
+		await sql`INSERT INTO users (id, name, email, role, image_url)
+			VALUES (${users[0] ?? ""}, 'User', 'user@example.com', 'user', ''),
+				(${users[1] ?? ""}, 'Admin', 'admin@example.com', 'admin', '')
+			ON CONFLICT (id) DO NOTHING`;
+	});
+
+	afterAll(async () => {
+		await sql`DELETE FROM users WHERE id = ANY(${users}::text[])`;
+	});
+
+	test("lets owners through without a role", async () => {
+		expect(await can("policy-test-user", "idea:delete", "policy-test-user")).toBe(true);
+		expect(await can("policy-test-user", "idea:delete", "someone-else")).toBe(false);
+	});
+
+	test("looks up the caller's role", async () => {
+		expect(await can("policy-test-admin", "idea:delete", "someone-else")).toBe(true);
+		expect(await can("policy-test-admin", "tag:merge")).toBe(true);
+		expect(await can("policy-test-user", "tag:merge")).toBe(false);
+	});
+
+	test("treats unknown users as plain users", async () => {
+		expect(await can("policy-test-missing", "tag:merge")).toBe(false);
+	});
+});
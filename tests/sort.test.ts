@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { sortQuery } from "../routes/sort.ts";
+
+const sort = sortQuery(["created_at", "title", "upvotes"], "-created_at");
+
+describe("sortQuery", () => {
+	test("defaults to the fallback", () => {
+		expect(sort.parse(undefined)).toEqual([
+			{ column: "created_at", direction: "desc" },
+		]);
+	});
+
+	test("reads columns in order, descending when prefixed with -", () => {
+		expect(sort.parse("-upvotes,title")).toEqual([
+			{ column: "upvotes", direction: "desc" },
+			{ column: "title", direction: "asc" },
+		]);
+	});
+
+	test("keeps the first direction of a repeated column", () => {
+		expect(sort.parse("title,-title,upvotes")).toEqual([
+			{ column: "title", direction: "asc" },
+			{ column: "upvotes", direction: "asc" },
+		]);
+	});
+
+	test("rejects unknown columns and malformed lists", () => {
+		for (const value of ["hidden", "title,", "--title", "title,,upvotes", "title upvotes"]) {
+			expect(sort.safeParse(value).success).toBe(false);
+		}
+	});
+});
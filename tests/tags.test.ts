@@ -0,0 +1,29 @@
+import "./env.ts";
+import { describe, expect, test } from "bun:test";
+import { tagName, tagNames } from "../routes/tags.ts";
+
+describe("tagName", () => {
+	test("trims and lowercases", () => {
+		expect(tagName.parse("  Machine Learning ")).toBe("machine learning");
+	});
+
+	test("rejects empty and overlong names after trimming", () => {
+		expect(tagName.safeParse("   ").success).toBe(false);
+		expect(tagName.safeParse("a".repeat(51)).success).toBe(false);
+		expect(tagName.parse(` ${"A".repeat(50)} `)).toBe("a".repeat(50));
+	});
+});
+
+describe("tagNames", () => {
+	test("drops names that are the same once normalized, keeping the order", () => {
+		expect(tagNames.parse(["UI", "db", " ui", "DB ", "ml"])).toEqual([
+			"ui",
+			"db",
+			"ml",
+		]);
+	});
+
+	test("rejects the list when a name is invalid", () => {
+		expect(tagNames.safeParse(["ui", ""]).success).toBe(false);
+	});
+});
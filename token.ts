@@ -0,0 +1,9 @@
+import { mintToken } from "./auth.ts";
+
+const user_id = process.argv[2];
+if (!user_id) {
+	console.error("Usage: bun run token <user_id>");
+	process.exit(1);
+}
+
+console.log(await mintToken(user_id));